@@ -3,6 +3,9 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import { ProtectedRoute } from "@/lib/protected-route";
 import Welcome from "@/pages/welcome";
 import OnboardingPersonal from "@/pages/onboarding-personal";
 import OnboardingEmergency from "@/pages/onboarding-emergency";
@@ -10,16 +13,24 @@ import OnboardingMedical from "@/pages/onboarding-medical";
 import OnboardingConfirmation from "@/pages/onboarding-confirmation";
 import Help from "@/pages/help";
 import HealthAssistant from "@/pages/health-assistant";
+import Patients from "@/pages/patients";
+import PatientDetail from "@/pages/patient-detail";
+import RoutingRules from "@/pages/routing-rules";
+import Login from "@/pages/login";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Welcome} />
-      <Route path="/onboarding/personal" component={OnboardingPersonal} />
+      <Route path="/login" component={Login} />
+      <ProtectedRoute path="/onboarding/personal" component={OnboardingPersonal} />
       <Route path="/onboarding/emergency" component={OnboardingEmergency} />
-      <Route path="/onboarding/medical" component={OnboardingMedical} />
-      <Route path="/onboarding/confirmation" component={OnboardingConfirmation} />
+      <ProtectedRoute path="/onboarding/medical" component={OnboardingMedical} />
+      <ProtectedRoute path="/onboarding/confirmation" component={OnboardingConfirmation} />
+      <ProtectedRoute path="/patients" component={Patients} />
+      <ProtectedRoute path="/patients/:id" component={PatientDetail} />
+      <ProtectedRoute path="/admin/routing-rules" component={RoutingRules} />
       <Route path="/help" component={Help} />
       <Route path="/health-assistant" component={HealthAssistant} />
       <Route component={NotFound} />
@@ -27,13 +38,22 @@ function Router() {
   );
 }
 
+// Keeps cached data in sync with the server's event stream
+function LiveUpdates() {
+  useLiveUpdates();
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <LiveUpdates />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
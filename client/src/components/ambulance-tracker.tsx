@@ -0,0 +1,93 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Ambulance, Clock, MapPin } from "lucide-react";
+
+export type DispatchStatus =
+  | "requested"
+  | "assigned"
+  | "en_route"
+  | "on_scene"
+  | "transporting"
+  | "arrived"
+  | "cancelled";
+
+export interface DispatchView {
+  id: string;
+  status: DispatchStatus;
+  etaMinutes?: number;
+  estimatedArrival?: string;
+  distanceKm?: number;
+  ambulance: {
+    id: string;
+    callSign: string;
+    latitude: number;
+    longitude: number;
+    lastPositionAt: string;
+  } | null;
+  statusHistory: { status: DispatchStatus; at: string }[];
+}
+
+const statusLabels: Record<DispatchStatus, string> = {
+  requested: "Waiting for an ambulance",
+  assigned: "Ambulance assigned",
+  en_route: "Ambulance on the way",
+  on_scene: "Ambulance has arrived",
+  transporting: "On the way to hospital",
+  arrived: "Arrived at hospital",
+  cancelled: "Dispatch cancelled",
+};
+
+const finishedStates: DispatchStatus[] = ["arrived", "cancelled"];
+
+/**
+ * Live status of an ambulance dispatch, kept current by the event stream
+ */
+export default function AmbulanceTracker({ dispatchId }: { dispatchId: string }) {
+  const { data: dispatch } = useQuery<DispatchView>({
+    queryKey: ["/api/dispatches", dispatchId],
+  });
+
+  if (!dispatch) {
+    return null;
+  }
+
+  const finished = finishedStates.includes(dispatch.status);
+
+  return (
+    <div className="space-y-2 text-sm" data-testid="ambulance-tracker">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-blue-800 font-medium">
+          <Ambulance className="h-4 w-4 mr-2" />
+          {statusLabels[dispatch.status]}
+        </div>
+        {dispatch.ambulance && (
+          <Badge variant="outline" className="bg-white">{dispatch.ambulance.callSign}</Badge>
+        )}
+      </div>
+      {dispatch.etaMinutes !== undefined && dispatch.etaMinutes !== null && !finished && (
+        <div className="flex items-center text-blue-700">
+          <Clock className="h-4 w-4 mr-2" />
+          <span>
+            ETA: {dispatch.etaMinutes} minute{dispatch.etaMinutes === 1 ? "" : "s"}
+            {dispatch.distanceKm !== undefined && dispatch.distanceKm !== null && ` (${dispatch.distanceKm} km away)`}
+          </span>
+        </div>
+      )}
+      {dispatch.ambulance && !finished && (
+        <div className="flex items-center text-blue-700">
+          <MapPin className="h-4 w-4 mr-2" />
+          <span className="text-xs">
+            Last seen {dispatch.ambulance.latitude.toFixed(4)}, {dispatch.ambulance.longitude.toFixed(4)} at{" "}
+            {new Date(dispatch.ambulance.lastPositionAt).toLocaleTimeString()}
+          </span>
+        </div>
+      )}
+      {!finished && (
+        <div className="flex items-center text-blue-700 mt-2">
+          <div className="w-2 h-2 bg-blue-500 rounded-full mr-2 animate-pulse"></div>
+          <span className="text-xs">Live tracking active</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -26,6 +26,7 @@ interface DocumentUploadResult {
     type: string;
     uploadedAt: string;
     status: string;
+    extractionStatus?: string;
   };
 }
 
@@ -38,23 +39,23 @@ export default function DocumentVerification({ patientId, onDocumentUploaded }:
   const [documentText, setDocumentText] = useState('');
   const [documentType, setDocumentType] = useState('');
   const [fileName, setFileName] = useState('');
+  const [file, setFile] = useState<File | null>(null);
   const [uploadResult, setUploadResult] = useState<DocumentUploadResult | null>(null);
   const { toast } = useToast();
 
   const uploadMutation = useMutation({
     mutationFn: async () => {
+      // Pasted content is sent as a plain text file so the server extracts it the same way
+      const upload = file || new File([documentText], `${fileName || `${documentType}_document`}.txt`, { type: 'text/plain' });
+      const formData = new FormData();
+      formData.append('file', upload);
+      formData.append('documentType', documentType);
+      formData.append('patientId', patientId || '');
+
       const response = await fetch('/api/documents/upload', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          documentText,
-          documentType,
-          patientId,
-          fileName: fileName || `${documentType}_document`,
-          fileSize: documentText.length
-        }),
+        body: formData,
+        credentials: 'include',
       });
 
       if (!response.ok) {
@@ -135,6 +136,21 @@ export default function DocumentVerification({ patientId, onDocumentUploaded }:
             />
           </div>
 
+          {/* File Input */}
+          <div>
+            <Label htmlFor="documentFile">Scan or PDF</Label>
+            <Input
+              id="documentFile"
+              type="file"
+              accept="application/pdf,image/*,text/plain"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="mt-1"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Text is read from the file automatically; or paste it below instead
+            </p>
+          </div>
+
           {/* Document Text Input */}
           <div>
             <Label htmlFor="documentText">Document Content</Label>
@@ -153,7 +169,7 @@ export default function DocumentVerification({ patientId, onDocumentUploaded }:
           {/* Upload Button */}
           <Button
             onClick={() => uploadMutation.mutate()}
-            disabled={!documentText.trim() || !documentType || !patientId || uploadMutation.isPending}
+            disabled={(!file && !documentText.trim()) || !documentType || !patientId || uploadMutation.isPending}
             className="w-full"
           >
             {uploadMutation.isPending ? (
@@ -0,0 +1,122 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertTriangle, HelpCircle, ShieldCheck } from "lucide-react";
+
+export type InteractionSeverity = "minor" | "moderate" | "major";
+
+export interface InteractionWarning {
+  type: "drug-allergy" | "drug-drug";
+  severity: InteractionSeverity;
+  subjects: [string, string];
+  message: string;
+  advice: string;
+}
+
+export interface UncheckedEntry {
+  type: "allergy" | "medication";
+  name: string;
+}
+
+const severityStyles: Record<InteractionSeverity, string> = {
+  major: "bg-red-100 text-red-800 hover:bg-red-100",
+  moderate: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  minor: "bg-gray-100 text-gray-700 hover:bg-gray-100",
+};
+
+const typeLabels: Record<InteractionWarning["type"], string> = {
+  "drug-allergy": "Allergy",
+  "drug-drug": "Interaction",
+};
+
+/**
+ * Interaction warnings for a patient's allergies and medications. Patients
+ * see plain-language advice; staff see the clinical message and severity.
+ * Renders nothing for patients when there is nothing to flag.
+ */
+export default function InteractionWarnings({
+  patientId,
+  audience,
+  className = "",
+}: {
+  patientId: string;
+  audience: "patient" | "staff";
+  className?: string;
+}) {
+  const { data, isLoading } = useQuery<{ warnings: InteractionWarning[]; unchecked: UncheckedEntry[] }>({
+    queryKey: ["/api/patients", patientId, "interactions"],
+  });
+  const warnings = data?.warnings ?? [];
+  const unchecked = data?.unchecked ?? [];
+
+  if (audience === "patient") {
+    if (warnings.length === 0) return null;
+    return (
+      <Card className={`shadow-lg border-amber-300 bg-amber-50 ${className}`}>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center text-amber-900">
+            <AlertTriangle className="h-5 w-5 mr-2" />
+            Please check your medicines with your care team
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ul className="space-y-2 text-sm text-amber-900">
+            {warnings.map((warning, index) => (
+              <li key={index} className="flex items-start">
+                <span className="mr-2">•</span>
+                <span>{warning.advice}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-amber-800 mt-3">
+            Don't stop or change any medicine on your own. A nurse or doctor will review this with you.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className={`shadow-lg border-0 ${className}`}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-lg">
+          <AlertTriangle className="h-5 w-5 mr-2 text-blue-600" />
+          Medication Safety
+          {warnings.length > 0 && <Badge variant="destructive" className="ml-2">{warnings.length}</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Checking...</p>
+        ) : warnings.length === 0 ? (
+          <p className="flex items-center text-sm text-gray-500">
+            <ShieldCheck className="h-4 w-4 mr-2 text-green-600" />
+            No allergy or interaction warnings for the {unchecked.length > 0 ? "checked" : "recorded"} medications
+          </p>
+        ) : (
+          <ul className="divide-y">
+            {warnings.map((warning, index) => (
+              <li key={index} className="py-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <Badge className={severityStyles[warning.severity]}>{warning.severity}</Badge>
+                  <Badge variant="outline">{typeLabels[warning.type]}</Badge>
+                  <span className="font-medium text-gray-900">{warning.subjects.join(" + ")}</span>
+                </div>
+                <p className="text-gray-700">{warning.message}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        {unchecked.length > 0 && (
+          <p className="flex items-start text-sm text-amber-800 mt-3">
+            <HelpCircle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+            <span>
+              Not checked, no matching drug found: {unchecked.map(entry => `${entry.name} (${entry.type})`).join(", ")}.
+              Pick them from the list to include them.
+            </span>
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,364 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useDebounced } from "@/hooks/use-debounced";
+import {
+  allergySeverityValues,
+  conditionStatusValues,
+  medicationRouteValues,
+  type Allergy,
+  type CodeSystem,
+  type Condition,
+  type MedicalCode,
+  type Medication,
+} from "@shared/schema";
+import { commonAllergens, commonConditions, commonMedications, type CodedTerm } from "@shared/medical-codes";
+
+interface EntriesProps<T> {
+  value: T[];
+  onChange: (value: T[]) => void;
+}
+
+const humanize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, " ");
+
+/**
+ * The pick-list term a free-text item refers to, so extracted or typed
+ * entries pick up the same code as a click on the pick-list would
+ */
+export function findCodedTerm(options: CodedTerm[], text: string): CodedTerm | undefined {
+  const lower = text.toLowerCase();
+  return options.find(option => lower.includes(option.label.toLowerCase()));
+}
+
+export const allergyFromText = (text: string): Allergy =>
+  ({ substance: text, code: findCodedTerm(commonAllergens, text)?.code });
+export const medicationFromText = (text: string): Medication =>
+  ({ name: text, code: findCodedTerm(commonMedications, text)?.code });
+export const conditionFromText = (text: string): Condition =>
+  ({ name: text, status: "active", code: findCodedTerm(commonConditions, text)?.code });
+
+interface TerminologyMatch extends MedicalCode {
+  display: string;
+  matched?: string;
+}
+
+async function searchTerminology(systems: CodeSystem[], q: string): Promise<TerminologyMatch[]> {
+  const params = new URLSearchParams({ system: systems.join(","), q, limit: "8" });
+  const response = await apiRequest("GET", `/api/terminology/search?${params}`);
+  return (await response.json()).results;
+}
+
+// Code set displays are clinical ("metformin", "Latex (substance)"); entries read as names
+function entryName(display: string) {
+  const name = display.replace(/ \((substance|organism)\)$/, "");
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function sameCode(a?: MedicalCode, b?: MedicalCode) {
+  return !!a && !!b && a.system === b.system && a.code === b.code;
+}
+
+function EnumSelect<V extends string>({
+  value,
+  values,
+  placeholder,
+  onChange,
+}: {
+  value?: V;
+  values: readonly V[];
+  placeholder: string;
+  onChange: (value: V) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as V)}>
+      <SelectTrigger className="h-8 text-sm">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {values.map((option) => (
+          <SelectItem key={option} value={option}>{humanize(option)}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Pick-list of coded terms plus a search box over the server's code sets,
+ * falling back to free text, with one editable row per entry
+ */
+function CodedEntryList<T extends { code?: MedicalCode }>({
+  value,
+  onChange,
+  options,
+  nameOf,
+  fromText,
+  renderDetails,
+  placeholder,
+  activeClassName,
+  systems,
+}: EntriesProps<T> & {
+  options: CodedTerm[];
+  // Code systems the "other" box searches as the user types
+  systems: CodeSystem[];
+  nameOf: (entry: T) => string;
+  fromText: (text: string) => T;
+  renderDetails: (entry: T, update: (changes: Partial<T>) => void) => ReactNode;
+  placeholder: string;
+  activeClassName: string;
+}) {
+  const [other, setOther] = useState("");
+  const [highlighted, setHighlighted] = useState(0);
+  const [suggesting, setSuggesting] = useState(false);
+  const search = useDebounced(other.trim());
+
+  const { data: suggestions = [] } = useQuery({
+    queryKey: ["/api/terminology/search", systems, search],
+    queryFn: () => searchTerminology(systems, search),
+    enabled: search.length >= 2,
+  });
+  const showSuggestions = suggesting && search.length >= 2 && suggestions.length > 0;
+
+  const isPicked = (option: CodedTerm) => value.some(entry => sameCode(entry.code, option.code));
+
+  const toggle = (option: CodedTerm) => {
+    onChange(isPicked(option)
+      ? value.filter(entry => !sameCode(entry.code, option.code))
+      : [...value, { ...fromText(option.label), code: option.code }]);
+  };
+
+  const addOther = () => {
+    const text = other.trim();
+    if (!text) return;
+    onChange([...value, fromText(text)]);
+    setOther("");
+  };
+
+  const addSuggestion = ({ system, code, display }: TerminologyMatch) => {
+    if (!value.some(entry => sameCode(entry.code, { system, code }))) {
+      onChange([...value, { ...fromText(entryName(display)), code: { system, code, display } }]);
+    }
+    setOther("");
+    setSuggesting(false);
+  };
+
+  const update = (index: number, changes: Partial<T>) => {
+    onChange(value.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {options.map((option) => (
+          <Button
+            key={`${option.code.system}:${option.code.code}`}
+            type="button"
+            variant={isPicked(option) ? "default" : "outline"}
+            size="sm"
+            onClick={() => toggle(option)}
+            className={isPicked(option) ? activeClassName : ""}
+            title={`${option.code.system} ${option.code.code}`}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Input
+            value={other}
+            onChange={(e) => {
+              setOther(e.target.value);
+              setHighlighted(0);
+              setSuggesting(true);
+            }}
+            onBlur={() => setSuggesting(false)}
+            onKeyDown={(e) => {
+              if (showSuggestions && e.key === "ArrowDown") {
+                e.preventDefault();
+                setHighlighted((highlighted + 1) % suggestions.length);
+              } else if (showSuggestions && e.key === "ArrowUp") {
+                e.preventDefault();
+                setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+              } else if (e.key === "Escape") {
+                setSuggesting(false);
+              } else if (e.key === "Enter") {
+                e.preventDefault();
+                if (showSuggestions && suggestions[highlighted]) {
+                  addSuggestion(suggestions[highlighted]);
+                } else {
+                  addOther();
+                }
+              }
+            }}
+            placeholder={placeholder}
+            className="h-9"
+            role="combobox"
+            aria-expanded={showSuggestions}
+            aria-autocomplete="list"
+          />
+          {showSuggestions && (
+            <ul role="listbox" className="absolute z-20 mt-1 w-full rounded-md border border-gray-200 bg-white shadow-lg max-h-64 overflow-y-auto">
+              {suggestions.map((suggestion, index) => (
+                <li
+                  key={`${suggestion.system}:${suggestion.code}`}
+                  role="option"
+                  aria-selected={index === highlighted}
+                  // Keeps focus in the input so the blur doesn't close the list first
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => addSuggestion(suggestion)}
+                  onMouseEnter={() => setHighlighted(index)}
+                  className={`flex items-center justify-between gap-2 px-3 py-2 text-sm cursor-pointer ${index === highlighted ? "bg-blue-50" : ""}`}
+                >
+                  <span>
+                    <span className="text-gray-900">{entryName(suggestion.display)}</span>
+                    {suggestion.matched && <span className="ml-1 text-gray-500">({suggestion.matched})</span>}
+                  </span>
+                  <span className="text-xs text-gray-500 font-mono whitespace-nowrap">{suggestion.system} {suggestion.code}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={addOther} disabled={!other.trim()}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+
+      {value.length > 0 && (
+        <ul className="space-y-2">
+          {value.map((entry, index) => (
+            <li key={`${nameOf(entry)}-${index}`} className="rounded-lg border border-gray-200 bg-white p-3">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900 text-sm">{nameOf(entry)}</span>
+                  {entry.code && (
+                    <Badge variant="outline" className="text-xs font-mono">
+                      {entry.code.system} {entry.code.code}
+                    </Badge>
+                  )}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => onChange(value.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${nameOf(entry)}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {renderDetails(entry, (changes) => update(index, changes))}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function AllergyEntries(props: EntriesProps<Allergy>) {
+  return (
+    <CodedEntryList
+      {...props}
+      options={commonAllergens}
+      systems={["RxNorm", "SNOMED"]}
+      nameOf={(allergy) => allergy.substance}
+      fromText={allergyFromText}
+      placeholder="Search or type another allergy..."
+      activeClassName="bg-red-100 text-red-700 border-red-300 hover:bg-red-200"
+      renderDetails={(allergy, update) => (
+        <>
+          <Input
+            value={allergy.reaction || ""}
+            onChange={(e) => update({ reaction: e.target.value })}
+            placeholder="Reaction (e.g. hives)"
+            className="h-8 text-sm sm:col-span-2"
+          />
+          <EnumSelect
+            value={allergy.severity}
+            values={allergySeverityValues}
+            placeholder="Severity"
+            onChange={(severity) => update({ severity })}
+          />
+        </>
+      )}
+    />
+  );
+}
+
+export function MedicationEntries(props: EntriesProps<Medication>) {
+  return (
+    <CodedEntryList
+      {...props}
+      options={commonMedications}
+      systems={["RxNorm"]}
+      nameOf={(medication) => medication.name}
+      fromText={medicationFromText}
+      placeholder="Search or type another medication..."
+      activeClassName="bg-blue-100 text-blue-700 border-blue-300 hover:bg-blue-200"
+      renderDetails={(medication, update) => (
+        <>
+          <Input
+            value={medication.dose || ""}
+            onChange={(e) => update({ dose: e.target.value })}
+            placeholder="Dose (e.g. 500 mg)"
+            className="h-8 text-sm"
+          />
+          <EnumSelect
+            value={medication.route}
+            values={medicationRouteValues}
+            placeholder="Route"
+            onChange={(route) => update({ route })}
+          />
+          <Input
+            value={medication.frequency || ""}
+            onChange={(e) => update({ frequency: e.target.value })}
+            placeholder="Frequency (e.g. twice daily)"
+            className="h-8 text-sm"
+          />
+        </>
+      )}
+    />
+  );
+}
+
+export function ConditionEntries(props: EntriesProps<Condition>) {
+  return (
+    <CodedEntryList
+      {...props}
+      options={commonConditions}
+      systems={["ICD-10"]}
+      nameOf={(condition) => condition.name}
+      fromText={conditionFromText}
+      placeholder="Search or type another condition..."
+      activeClassName="bg-green-100 text-green-700 border-green-300 hover:bg-green-200"
+      renderDetails={(condition, update) => (
+        <>
+          <Input
+            value={condition.onset || ""}
+            onChange={(e) => update({ onset: e.target.value })}
+            placeholder="Since (e.g. 2015)"
+            className="h-8 text-sm sm:col-span-2"
+          />
+          <EnumSelect
+            value={condition.status}
+            values={conditionStatusValues}
+            placeholder="Status"
+            onChange={(status) => update({ status })}
+          />
+        </>
+      )}
+    />
+  );
+}
@@ -1,7 +1,11 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   Navigation, 
   Activity, 
@@ -9,56 +13,186 @@ import {
   List, 
   BarChart3,
   MapPin,
-  Clock
+  Clock,
+  BedDouble
 } from "lucide-react";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 
-export function NavigationSidebar() {
-  const { data: navigation, isLoading: navLoading } = useQuery<any[]>({
-    queryKey: ["/api/navigation"],
+interface Department {
+  id: string;
+  name: string;
+  floor: string;
+  wing: string;
+  // Unset when no route leads there
+  walkTime?: string;
+}
+
+interface Place {
+  _id: string;
+  key: string;
+  name: string;
+  kind: "department" | "point_of_interest" | "entrance" | "junction" | "elevator";
+}
+
+interface Directions {
+  to: Place;
+  walkTime: string;
+  steps: { instruction: string; floor: string; placeId: string }[];
+}
+
+// Places a visitor could be standing at; junctions and elevator lobbies are only waypoints
+const originKinds: Place["kind"][] = ["entrance", "department", "point_of_interest"];
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await apiRequest("GET", url);
+  return response.json();
+}
+
+/**
+ * Walk times to every department from where the patient is now, and
+ * turn-by-turn directions to the department picked or, for an admitted
+ * patient, to their bed
+ */
+function HospitalNavigation({ patientId }: { patientId?: string }) {
+  const [from, setFrom] = useState("main_entrance");
+  const [stepFree, setStepFree] = useState(false);
+  // Department key; none means the patient's bed when there is a patient
+  const [destination, setDestination] = useState<string | null>(null);
+  const params = new URLSearchParams({ from, stepFree: String(stepFree) });
+
+  const { data: places } = useQuery<Place[]>({
+    queryKey: ["/api/places"],
   });
 
-  const { data: activities, isLoading: activitiesLoading } = useQuery<any[]>({
-    queryKey: ["/api/activities"],
-    refetchInterval: 10000,
+  const { data: navigation, isLoading: navLoading } = useQuery<Department[]>({
+    queryKey: ["/api/navigation", from, stepFree],
+    queryFn: () => fetchJson(`/api/navigation?${params}`),
   });
 
+  const directionsUrl = destination
+    ? `/api/navigation/directions?${params}&to=${encodeURIComponent(destination)}`
+    : patientId && `/api/patients/${patientId}/directions?${params}`;
+  const { data: directions, error: directionsError, isLoading: directionsLoading } = useQuery<Directions>({
+    queryKey: ["/api/navigation", "directions", directionsUrl],
+    queryFn: () => fetchJson(directionsUrl as string),
+    enabled: !!directionsUrl,
+  });
+
+  const origins = places?.filter(place => originKinds.includes(place.kind)) ?? [];
+
   return (
-    <div className="space-y-6">
-      {/* Hospital Navigation */}
-      <Card className="bg-card-white shadow-sm border border-gray-200">
-        <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <Navigation className="h-5 w-5" />
-            <span>Hospital Navigation</span>
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          {navLoading ? (
-            <div className="space-y-3">
-              {[...Array(3)].map((_, i) => (
-                <Skeleton key={i} className="h-12 w-full" />
+    <Card className="bg-card-white shadow-sm border border-gray-200">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Navigation className="h-5 w-5" />
+          <span>Hospital Navigation</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label className="text-xs text-text-secondary">Starting from</Label>
+          <Select value={from} onValueChange={setFrom}>
+            <SelectTrigger><SelectValue placeholder="Main Entrance" /></SelectTrigger>
+            <SelectContent>
+              {origins.map(place => (
+                <SelectItem key={place._id} value={place.key}>{place.name}</SelectItem>
               ))}
-            </div>
-          ) : navigation && Array.isArray(navigation) && navigation.length > 0 ? (
-            <div className="space-y-3">
-              {navigation.slice(0, 3).map((dept: any) => (
-                <div key={dept.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100 cursor-pointer transition-colors">
-                  <div className="flex items-center space-x-3">
-                    <MapPin className="h-4 w-4 text-medical-blue" />
-                    <span className="text-text-primary font-medium">{dept.name}</span>
-                  </div>
-                  <div className="flex items-center space-x-1">
-                    <Clock className="h-3 w-3 text-text-secondary" />
-                    <span className="text-success-green text-sm">{dept.walkTime}</span>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center space-x-2">
+            <Checkbox id="navigation-step-free" checked={stepFree} onCheckedChange={(checked) => setStepFree(checked === true)} />
+            <Label htmlFor="navigation-step-free" className="text-sm">Step-free route</Label>
+          </div>
+        </div>
+
+        {navLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : navigation && navigation.length > 0 ? (
+          <div className="space-y-2">
+            {patientId && (
+              <button
+                type="button"
+                onClick={() => setDestination(null)}
+                className={`w-full flex items-center space-x-3 p-3 rounded-lg transition-colors ${
+                  destination === null ? "bg-blue-50 ring-1 ring-medical-blue" : "bg-gray-50 hover:bg-gray-100"
+                }`}
+              >
+                <BedDouble className="h-4 w-4 text-medical-blue" />
+                <span className="text-text-primary font-medium">Patient's bed</span>
+              </button>
+            )}
+            {navigation.map((dept) => (
+              <button
+                key={dept.id}
+                type="button"
+                onClick={() => setDestination(destination === dept.id ? null : dept.id)}
+                className={`w-full flex items-center justify-between p-3 rounded-lg transition-colors ${
+                  destination === dept.id ? "bg-blue-50 ring-1 ring-medical-blue" : "bg-gray-50 hover:bg-gray-100"
+                }`}
+              >
+                <div className="flex items-center space-x-3 text-left">
+                  <MapPin className="h-4 w-4 text-medical-blue" />
+                  <div>
+                    <p className="text-text-primary font-medium">{dept.name}</p>
+                    <p className="text-text-secondary text-xs">{dept.floor}, {dept.wing} Wing</p>
                   </div>
                 </div>
-              ))}
+                <div className="flex items-center space-x-1">
+                  <Clock className="h-3 w-3 text-text-secondary" />
+                  <span className="text-success-green text-sm">{dept.walkTime ?? "No route"}</span>
+                </div>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-text-secondary text-sm">Navigation data unavailable</p>
+        )}
+
+        {directionsUrl && (
+          directionsLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : directions ? (
+            <div className="rounded-lg border border-gray-200 p-3">
+              <p className="text-text-primary font-medium text-sm mb-2">
+                To {directions.to.name} · {directions.walkTime}
+              </p>
+              <ol className="space-y-2">
+                {directions.steps.map((step, index) => (
+                  <li key={`${step.placeId}-${index}`} className="flex items-start space-x-2 text-sm">
+                    <span className="text-medical-blue font-medium w-5 shrink-0">{index + 1}.</span>
+                    <div>
+                      <p className="text-text-primary">{step.instruction}</p>
+                      <p className="text-text-secondary text-xs">{step.floor}</p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
             </div>
           ) : (
-            <p className="text-text-secondary text-sm">Navigation data unavailable</p>
-          )}
-        </CardContent>
-      </Card>
+            <p className="text-text-secondary text-sm">
+              {directionsError instanceof ApiError && directionsError.body?.error
+                ? directionsError.body.error
+                : "Directions unavailable"}
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function NavigationSidebar({ patientId }: { patientId?: string }) {
+  const { data: activities, isLoading: activitiesLoading } = useQuery<any[]>({
+    queryKey: ["/api/activities"],
+  });
+
+  return (
+    <div className="space-y-6">
+      <HospitalNavigation patientId={patientId} />
 
       {/* Recent Activities */}
       <Card className="bg-card-white shadow-sm border border-gray-200">
@@ -80,6 +214,7 @@ export function NavigationSidebar() {
               {activities.slice(0, 3).map((activity: any) => (
                 <div key={activity.id} className="flex items-start space-x-3">
                   <div className={`w-2 h-2 rounded-full mt-2 ${
+                    activity.action === 'early_warning_escalation' ? 'bg-red-500' :
                     activity.action === 'onboarding_completed' ? 'bg-success-green' :
                     activity.action === 'patient_created' ? 'bg-medical-blue' :
                     'bg-yellow-500'
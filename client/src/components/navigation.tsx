@@ -1,6 +1,7 @@
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
 import { 
   Home, 
   User, 
@@ -9,7 +10,8 @@ import {
   Heart,
   Brain,
   CheckCircle,
-  Stethoscope
+  Stethoscope,
+  Route
 } from "lucide-react";
 
 interface NavigationProps {
@@ -19,6 +21,7 @@ interface NavigationProps {
 
 export default function Navigation({ currentStep, patientId }: NavigationProps) {
   const [location] = useLocation();
+  const { user } = useAuth();
   
   const isActive = (path: string) => {
     if (path === "/" && location === "/") return true;
@@ -44,7 +47,20 @@ export default function Navigation({ currentStep, patientId }: NavigationProps)
       label: "Help",
       icon: HelpCircle,
       description: "Support"
-    }
+    },
+    // Staff only
+    ...(user ? [{
+      path: "/patients",
+      label: "Patients",
+      icon: LayoutDashboard,
+      description: "Registry"
+    }] : []),
+    ...(user?.role === "admin" ? [{
+      path: "/admin/routing-rules",
+      label: "Routing",
+      icon: Route,
+      description: "Emergency rules"
+    }] : [])
   ];
 
   // Show onboarding steps if we have a patient ID (3-step flow)
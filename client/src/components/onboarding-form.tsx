@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useForm } from "react-hook-form";
+import { Controller, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { z } from "zod";
@@ -11,7 +11,8 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { AllergyEntries, MedicationEntries } from "@/components/medical-history-entries";
 import { 
   ArrowLeft, 
   ArrowRight, 
@@ -22,32 +23,12 @@ import {
   Heart,
   CheckCircle
 } from "lucide-react";
+import { insuranceInfoSchema, medicalInfoSchema, personalInfoSchema, type MedicalInfo } from "@shared/schema";
 
-const personalInfoSchema = z.object({
-  firstName: z.string().min(1, "First name is required"),
-  lastName: z.string().min(1, "Last name is required"),
-  dateOfBirth: z.string().min(1, "Date of birth is required"),
-  phone: z.string().min(10, "Valid phone number is required"),
-  address: z.string().min(1, "Address is required"),
-  emergencyContactName: z.string().optional(),
-  emergencyContactRelationship: z.string().optional(),
-  emergencyContactPhone: z.string().optional(),
-});
-
-const insuranceSchema = z.object({
+// This flow requires insurance details that are optional elsewhere
+const insuranceSchema = insuranceInfoSchema.extend({
   insuranceProvider: z.string().min(1, "Insurance provider is required"),
   insurancePolicyNumber: z.string().min(1, "Policy number is required"),
-  insuranceGroupNumber: z.string().optional(),
-});
-
-const medicalHistorySchema = z.object({
-  allergies: z.string().optional(),
-  medications: z.string().optional(),
-  medicalHistory: z.object({
-    conditions: z.array(z.string()).optional(),
-    surgeries: z.array(z.string()).optional(),
-    familyHistory: z.string().optional(),
-  }).optional(),
 });
 
 interface OnboardingFormProps {
@@ -90,14 +71,14 @@ export function OnboardingForm({ emergencyMode, onComplete, onCancel }: Onboardi
     },
   });
 
-  const medicalForm = useForm({
-    resolver: zodResolver(medicalHistorySchema),
+  const medicalForm = useForm<MedicalInfo>({
+    resolver: zodResolver(medicalInfoSchema),
     defaultValues: {
-      allergies: "",
-      medications: "",
+      allergies: [],
+      medications: [],
       medicalHistory: {
         conditions: [],
-        surgeries: [],
+        surgeries: "",
         familyHistory: "",
       },
     },
@@ -109,7 +90,6 @@ export function OnboardingForm({ emergencyMode, onComplete, onCancel }: Onboardi
       const response = await apiRequest("POST", "/api/patients", {
         ...data,
         isEmergency: emergencyMode,
-        onboardingStep: currentStep,
       });
       return response.json();
     },
@@ -152,13 +132,9 @@ export function OnboardingForm({ emergencyMode, onComplete, onCancel }: Onboardi
     mutationFn: async () => {
       if (!patientId) throw new Error("No patient ID");
       
-      // Determine admission location based on emergency mode
-      const admissionLocation = emergencyMode 
-        ? "Emergency Room - Bed 12A" 
-        : "General Admission - Room 204B";
-      
+      // The server reserves a free bed in the unit
       const response = await apiRequest("POST", `/api/patients/${patientId}/complete`, {
-        admissionLocation,
+        unit: emergencyMode ? "emergency_room" : "general_admission",
       });
       return response.json();
     },
@@ -168,10 +144,11 @@ export function OnboardingForm({ emergencyMode, onComplete, onCancel }: Onboardi
       queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
       onComplete(patient);
     },
-    onError: () => {
+    onError: (error) => {
+      const unitFull = error instanceof ApiError && error.status === 409;
       toast({
-        title: "Error",
-        description: "Failed to complete onboarding",
+        title: unitFull ? "No bed available" : "Error",
+        description: unitFull ? error.body?.error : "Failed to complete onboarding",
         variant: "destructive",
       });
     },
@@ -550,22 +527,20 @@ export function OnboardingForm({ emergencyMode, onComplete, onCancel }: Onboardi
             {currentStep === 3 && (
               <form className="space-y-6">
                 <div>
-                  <Label htmlFor="allergies">Allergies</Label>
-                  <Textarea
-                    id="allergies"
-                    {...medicalForm.register("allergies")}
-                    placeholder="List any known allergies"
-                    className="h-20"
+                  <Label>Allergies</Label>
+                  <Controller
+                    control={medicalForm.control}
+                    name="allergies"
+                    render={({ field }) => <AllergyEntries value={field.value ?? []} onChange={field.onChange} />}
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="medications">Current Medications</Label>
-                  <Textarea
-                    id="medications"
-                    {...medicalForm.register("medications")}
-                    placeholder="List current medications and dosages"
-                    className="h-20"
+                  <Label>Current Medications</Label>
+                  <Controller
+                    control={medicalForm.control}
+                    name="medications"
+                    render={({ field }) => <MedicationEntries value={field.value ?? []} onChange={field.onChange} />}
                   />
                 </div>
 
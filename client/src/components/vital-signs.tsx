@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Activity, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { VitalSigns } from "@shared/schema";
+
+export type EarlyWarningRisk = "low" | "low-medium" | "medium" | "high";
+
+export interface EarlyWarningScore {
+  score: number;
+  risk: EarlyWarningRisk;
+  parameters: { parameter: string; points: number }[];
+  missing: string[];
+}
+
+export interface VitalSignsRecord extends VitalSigns {
+  _id: string;
+  earlyWarning: EarlyWarningScore;
+  recordedByName?: string;
+  recordedAt: string;
+}
+
+type MeasuredField = Exclude<keyof VitalSigns, "onOxygen">;
+
+// Form state keeps the raw input text so a half-typed value isn't lost
+export type VitalSignsDraft = Partial<Record<MeasuredField, string>> & { onOxygen?: boolean };
+
+const fields: { field: MeasuredField; label: string; unit: string; step?: string }[] = [
+  { field: "heartRate", label: "Heart rate", unit: "bpm" },
+  { field: "respiratoryRate", label: "Respiratory rate", unit: "/min" },
+  { field: "systolicBP", label: "Systolic BP", unit: "mmHg" },
+  { field: "diastolicBP", label: "Diastolic BP", unit: "mmHg" },
+  { field: "oxygenSaturation", label: "SpO2", unit: "%" },
+  { field: "temperatureC", label: "Temperature", unit: "°C", step: "0.1" },
+  { field: "gcs", label: "GCS", unit: "3-15" },
+  { field: "painScore", label: "Pain", unit: "0-10" },
+];
+
+const riskStyles: Record<EarlyWarningRisk, string> = {
+  high: "bg-red-100 text-red-800 hover:bg-red-100",
+  medium: "bg-orange-100 text-orange-800 hover:bg-orange-100",
+  "low-medium": "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  low: "bg-green-100 text-green-800 hover:bg-green-100",
+};
+
+/**
+ * The measurements filled in on a draft, or undefined when none were.
+ * Range checks are left to the server.
+ */
+export function toVitalSigns(draft: VitalSignsDraft): VitalSigns | undefined {
+  const vitals: VitalSigns = {};
+  for (const { field } of fields) {
+    const text = draft[field]?.trim();
+    if (text) vitals[field] = Number(text);
+  }
+  if (Object.keys(vitals).length === 0) return undefined;
+  return draft.onOxygen === undefined ? vitals : { ...vitals, onOxygen: draft.onOxygen };
+}
+
+export function EarlyWarningBadge({ earlyWarning }: { earlyWarning: EarlyWarningScore }) {
+  return (
+    <Badge
+      className={riskStyles[earlyWarning.risk]}
+      title={earlyWarning.missing.length ? `Not measured: ${earlyWarning.missing.join(", ")}` : undefined}
+    >
+      NEWS2 {earlyWarning.score}{earlyWarning.missing.length ? "+" : ""} · {earlyWarning.risk}
+    </Badge>
+  );
+}
+
+export function VitalSignsFields({ value, onChange }: {
+  value: VitalSignsDraft;
+  onChange: (value: VitalSignsDraft) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {fields.map(({ field, label, unit, step }) => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={`vitals-${field}`} className="text-xs text-gray-600">
+              {label} <span className="text-gray-400">({unit})</span>
+            </Label>
+            <Input
+              id={`vitals-${field}`}
+              type="number"
+              inputMode="decimal"
+              step={step}
+              value={value[field] ?? ""}
+              onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+              className="h-9"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="vitals-onOxygen"
+          checked={value.onOxygen ?? false}
+          onCheckedChange={(checked) => onChange({ ...value, onOxygen: checked === true })}
+        />
+        <Label htmlFor="vitals-onOxygen" className="text-sm">On supplemental oxygen</Label>
+      </div>
+    </div>
+  );
+}
+
+function formatVitals(record: VitalSignsRecord) {
+  const parts = [
+    record.heartRate !== undefined && `HR ${record.heartRate}`,
+    record.respiratoryRate !== undefined && `RR ${record.respiratoryRate}`,
+    (record.systolicBP !== undefined || record.diastolicBP !== undefined) &&
+      `BP ${record.systolicBP ?? "?"}/${record.diastolicBP ?? "?"}`,
+    record.oxygenSaturation !== undefined && `SpO2 ${record.oxygenSaturation}%${record.onOxygen ? " on O2" : ""}`,
+    record.temperatureC !== undefined && `${record.temperatureC}°C`,
+    record.gcs !== undefined && `GCS ${record.gcs}`,
+    record.painScore !== undefined && `Pain ${record.painScore}/10`,
+  ];
+  return parts.filter(Boolean).join(" · ");
+}
+
+/**
+ * Vital signs recorded for a patient with their NEWS2 scores, and a form to
+ * record a new set
+ */
+export default function VitalSignsPanel({ patientId, className = "" }: { patientId: string; className?: string }) {
+  const [draft, setDraft] = useState<VitalSignsDraft | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: records, isLoading } = useQuery<VitalSignsRecord[]>({
+    queryKey: ["/api/patients", patientId, "vitals"],
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: async (vitals: VitalSigns) => {
+      const response = await apiRequest("POST", `/api/patients/${patientId}/vitals`, vitals);
+      return response.json() as Promise<VitalSignsRecord>;
+    },
+    onSuccess: (record) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients", patientId, "vitals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/patients", patientId, "activities"] });
+      setDraft(null);
+      toast({
+        title: `NEWS2 ${record.earlyWarning.score}`,
+        description: `Vital signs recorded - ${record.earlyWarning.risk} risk`,
+        variant: record.earlyWarning.risk === "low" ? "default" : "destructive",
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to record vital signs. Check the values are in range.", variant: "destructive" });
+    },
+  });
+
+  const vitals = draft ? toVitalSigns(draft) : undefined;
+  const latest = records?.[0];
+
+  return (
+    <Card className={`shadow-lg border-0 ${className}`}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="flex items-center text-lg">
+          <Activity className="h-5 w-5 mr-2 text-blue-600" />
+          Vital Signs
+          {latest && <span className="ml-2"><EarlyWarningBadge earlyWarning={latest.earlyWarning} /></span>}
+        </CardTitle>
+        {!draft && (
+          <Button variant="ghost" size="sm" onClick={() => setDraft({})}>
+            <Plus className="h-4 w-4 mr-1" />
+            Record
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {draft && (
+          <div className="rounded-lg border border-gray-200 p-3 space-y-3">
+            <VitalSignsFields value={draft} onChange={setDraft} />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setDraft(null)}>Cancel</Button>
+              <Button size="sm" disabled={!vitals || recordMutation.isPending} onClick={() => vitals && recordMutation.mutate(vitals)}>
+                {recordMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : !records?.length ? (
+          <p className="text-sm text-gray-500">No vital signs recorded</p>
+        ) : (
+          <ol className="divide-y">
+            {records.map((record) => (
+              <li key={record._id} className="py-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <EarlyWarningBadge earlyWarning={record.earlyWarning} />
+                  <span className="text-gray-900">{formatVitals(record)}</span>
+                </div>
+                <p className="text-gray-500 mt-1">
+                  {record.recordedByName || "System"} · {new Date(record.recordedAt).toLocaleString()}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface StaffUser {
+  _id: string;
+  username: string;
+  name: string;
+  role: string;
+}
+
+type LoginData = {
+  username: string;
+  password: string;
+};
+
+type AuthContextType = {
+  user: StaffUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<StaffUser, Error, LoginData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user, isLoading } = useQuery<StaffUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const response = await apiRequest("POST", "/api/login", credentials);
+      return response.json();
+    },
+    onSuccess: (user: StaffUser) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: () => {
+      toast({
+        title: "Login failed",
+        description: "Invalid username or password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/user"], null);
+      queryClient.clear();
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
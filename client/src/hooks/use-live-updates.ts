@@ -0,0 +1,120 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { DispatchView } from "@/components/ambulance-tracker";
+
+interface PatientEvent {
+  id: string;
+  firstName: string;
+  lastName: string;
+  isEmergency: boolean;
+  admissionLocation?: string;
+  emergencyType?: string;
+}
+
+interface DispatchEvent {
+  id: string;
+  status: DispatchView["status"];
+  ambulanceId?: string;
+  etaMinutes?: number;
+  estimatedArrival?: string;
+  distanceKm?: number;
+}
+
+interface AmbulanceEvent {
+  id: string;
+  callSign: string;
+  latitude: number;
+  longitude: number;
+  lastPositionAt: string;
+}
+
+// Everything the feed can change; refetched after a reconnect in case events were missed
+const liveQueryKeys = [["/api/activities"], ["/api/stats"], ["/api/patients"], ["/api/dispatches"], ["/api/ambulances"]];
+
+/**
+ * Subscribes to the server's event stream while a staff member is logged in
+ * and keeps the React Query caches current, so lists update without polling.
+ */
+export function useLiveUpdates() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const source = new EventSource("/api/events", { withCredentials: true });
+    const on = <T,>(type: string, handler: (data: T) => void) => {
+      source.addEventListener(type, (event) => handler(JSON.parse((event as MessageEvent).data)));
+    };
+
+    let dropped = false;
+    source.onerror = () => {
+      dropped = true;
+    };
+    source.onopen = () => {
+      if (dropped) {
+        liveQueryKeys.forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+        dropped = false;
+      }
+    };
+
+    on("activity.created", () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+    });
+
+    on<PatientEvent>("patient.created", (patient) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      if (patient.isEmergency) {
+        toast({
+          title: "Emergency Arrival",
+          description: `${patient.firstName} ${patient.lastName} (${patient.emergencyType || "emergency"}) - ${patient.admissionLocation || "Emergency Room"}`,
+          variant: "destructive",
+        });
+      }
+    });
+
+    on<PatientEvent>("patient.updated", () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+    });
+
+    on<DispatchEvent>("dispatch.updated", (dispatch) => {
+      const queryKey = ["/api/dispatches", dispatch.id];
+      const cached = queryClient.getQueryData<DispatchView>(queryKey);
+      // A newly assigned ambulance needs its details fetched; otherwise patch in place
+      if (!cached || (dispatch.ambulanceId && cached.ambulance?.id !== dispatch.ambulanceId)) {
+        queryClient.invalidateQueries({ queryKey });
+        return;
+      }
+      queryClient.setQueryData<DispatchView>(queryKey, {
+        ...cached,
+        status: dispatch.status,
+        etaMinutes: dispatch.etaMinutes,
+        estimatedArrival: dispatch.estimatedArrival,
+        distanceKm: dispatch.distanceKm,
+      });
+    });
+
+    on<AmbulanceEvent>("ambulance.updated", (ambulance) => {
+      queryClient.setQueriesData<DispatchView>({ queryKey: ["/api/dispatches"] }, (cached) =>
+        cached?.ambulance?.id === ambulance.id
+          ? {
+              ...cached,
+              ambulance: {
+                ...cached.ambulance,
+                latitude: ambulance.latitude,
+                longitude: ambulance.longitude,
+                lastPositionAt: ambulance.lastPositionAt,
+              },
+            }
+          : cached,
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/ambulances"] });
+    });
+
+    return () => source.close();
+  }, [user?._id]);
+}
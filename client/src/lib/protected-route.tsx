@@ -0,0 +1,26 @@
+import { Redirect, Route } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+}: {
+  path: string;
+  component: () => React.JSX.Element | null;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="min-h-screen flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to={`/login?redirect=${encodeURIComponent(window.location.pathname + window.location.search)}`} />
+      )}
+    </Route>
+  );
+}
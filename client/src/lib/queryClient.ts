@@ -1,9 +1,31 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public body?: any,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  // Per-field messages from a 422 response, keyed by field path
+  get fields(): Record<string, string> | undefined {
+    return this.status === 422 ? this.body?.fields : undefined;
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = undefined;
+    }
+    throw new ApiError(res.status, `${res.status}: ${text}`, body);
   }
 }
 
@@ -24,11 +24,23 @@ import {
   TrendingUp
 } from "lucide-react";
 
+interface TriageFinding {
+  source: 'symptom' | 'vital';
+  finding: string;
+  acuity: number;
+}
+
 interface SymptomAnalysis {
   possibleConditions: string[];
   urgency: 'low' | 'medium' | 'high';
   recommendations: string[];
   shouldSeekCare: boolean;
+  triage: {
+    acuity: number;
+    label: string;
+    findings: TriageFinding[];
+  };
+  modelAssessed: boolean;
 }
 
 interface MedicalAdvice {
@@ -359,6 +371,27 @@ export default function HealthAssistant() {
                     )}
                   </div>
 
+                  <div className="rounded-lg border border-gray-200 p-3">
+                    <p className="text-sm font-medium text-gray-900">
+                      Triage level {symptomAnalysisMutation.data.triage.acuity} of 5 · {symptomAnalysisMutation.data.triage.label}
+                    </p>
+                    {symptomAnalysisMutation.data.triage.findings.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {symptomAnalysisMutation.data.triage.findings.map((finding, index) => (
+                          <li key={index} className="flex items-center text-sm text-gray-700">
+                            <AlertTriangle className={`h-3 w-3 mr-2 ${finding.acuity <= 2 ? 'text-red-500' : 'text-yellow-500'}`} />
+                            {finding.finding}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {!symptomAnalysisMutation.data.modelAssessed && (
+                      <p className="mt-2 text-xs text-gray-500">
+                        The AI assistant is unavailable, so this is based on warning signs only.
+                      </p>
+                    )}
+                  </div>
+
                   {symptomAnalysisMutation.data.possibleConditions.length > 0 && (
                     <div>
                       <h4 className="font-semibold text-gray-900 mb-2">Possible Conditions</h4>
@@ -13,6 +13,8 @@ export default function Home() {
   const [emergencyMode, setEmergencyMode] = useState(false);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [completedPatient, setCompletedPatient] = useState<any>(null);
+  // Kept after the confirmation closes so the sidebar can still show the way to their bed
+  const [admittedPatientId, setAdmittedPatientId] = useState<string | undefined>();
 
   const { data: stats, isLoading: statsLoading } = useQuery<{
     patientsToday: number;
@@ -21,16 +23,15 @@ export default function Home() {
     completedOnboarding: number;
   }>({
     queryKey: ["/api/stats"],
-    refetchInterval: 30000, // Refresh every 30 seconds
   });
 
   const { data: activities, isLoading: activitiesLoading } = useQuery<any[]>({
     queryKey: ["/api/activities"],
-    refetchInterval: 10000, // Refresh every 10 seconds
   });
 
   const handleOnboardingComplete = (patient: any) => {
     setCompletedPatient(patient);
+    setAdmittedPatientId(patient?._id);
     setShowOnboarding(false);
   };
 
@@ -165,6 +166,7 @@ export default function Home() {
                     {activities.map((activity: any) => (
                       <div key={activity.id} className="flex items-start space-x-3">
                         <div className={`w-2 h-2 rounded-full mt-2 ${
+                          activity.action === 'early_warning_escalation' ? 'bg-red-500' :
                           activity.action === 'onboarding_completed' ? 'bg-success-green' :
                           activity.action === 'patient_created' ? 'bg-medical-blue' :
                           'bg-yellow-500'
@@ -186,7 +188,7 @@ export default function Home() {
           </div>
 
           {/* Sidebar */}
-          <NavigationSidebar />
+          <NavigationSidebar patientId={admittedPatientId} />
         </div>
       </main>
 
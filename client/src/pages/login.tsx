@@ -0,0 +1,99 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Redirect } from "wouter";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { Stethoscope, LogIn } from "lucide-react";
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export default function Login() {
+  const { user, loginMutation } = useAuth();
+
+  const form = useForm({
+    resolver: zodResolver(loginSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+    },
+  });
+
+  // Only follow same-origin paths so the redirect cannot leave the app
+  const redirect = new URLSearchParams(window.location.search).get('redirect');
+  const target = redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/';
+
+  if (user) {
+    return <Redirect to={target} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md shadow-lg border-0 bg-white/80 backdrop-blur-sm">
+        <CardHeader className="text-center pb-6">
+          <div className="w-16 h-16 bg-gradient-to-br from-blue-600 via-purple-600 to-green-600 rounded-xl flex items-center justify-center mx-auto mb-4 shadow-lg">
+            <Stethoscope className="h-8 w-8 text-white" />
+          </div>
+          <CardTitle className="text-2xl text-gray-900">Staff Sign In</CardTitle>
+          <p className="text-gray-600">Sign in to access patient records</p>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={form.handleSubmit((data) => loginMutation.mutate(data))}
+            className="space-y-6"
+          >
+            <div>
+              <Label htmlFor="username" className="text-sm font-medium text-gray-700">
+                Username
+              </Label>
+              <Input
+                id="username"
+                autoComplete="username"
+                {...form.register("username")}
+                className="mt-1"
+              />
+              {form.formState.errors.username && (
+                <p className="text-sm text-red-500 mt-1">
+                  {form.formState.errors.username.message}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="password" className="text-sm font-medium text-gray-700">
+                Password
+              </Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                {...form.register("password")}
+                className="mt-1"
+              />
+              {form.formState.errors.password && (
+                <p className="text-sm text-red-500 mt-1">
+                  {form.formState.errors.password.message}
+                </p>
+              )}
+            </div>
+
+            <Button
+              type="submit"
+              disabled={loginMutation.isPending}
+              className="w-full bg-blue-600 hover:bg-blue-700"
+            >
+              <LogIn className="h-4 w-4 mr-2" />
+              {loginMutation.isPending ? "Signing in..." : "Sign In"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
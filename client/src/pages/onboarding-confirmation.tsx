@@ -1,7 +1,9 @@
 import { useEffect, useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
 import Navigation from "@/components/navigation";
+import AmbulanceTracker from "@/components/ambulance-tracker";
+import InteractionWarnings from "@/components/interaction-warnings";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -19,16 +21,25 @@ import {
   Star
 } from "lucide-react";
 
+interface EmergencyUnit {
+  id: string;
+  name: string;
+  floor: string;
+  wing: string;
+  icon: string;
+  directions: string;
+  estimatedTime: string;
+}
+
 export default function OnboardingConfirmation() {
   const [showCelebration, setShowCelebration] = useState(false);
-  const [savedToDatabase, setSavedToDatabase] = useState(false);
   
   // Get patient ID from URL params
   const urlParams = new URLSearchParams(window.location.search);
   const patientId = urlParams.get('patientId');
   const isCompleted = urlParams.get('completed') === 'true';
   const isEmergency = urlParams.get('emergency') === 'true';
-  const emergencyLocation = urlParams.get('location');
+  const emergencyLocation = urlParams.get('emergencyLocation');
   const emergencyType = urlParams.get('emergencyType');
   
   const { data: patient, isLoading } = useQuery<{
@@ -40,50 +51,16 @@ export default function OnboardingConfirmation() {
     admissionLocation: string;
     insuranceProvider?: string;
     isEmergency?: boolean;
+    isProvisional?: boolean;
+    dispatchId?: string;
   }>({
     queryKey: ["/api/patients", patientId],
-    enabled: !!patientId && !isEmergency,
+    enabled: !!patientId,
   });
-
-  // Save emergency patient to database
-  const saveEmergencyPatient = useMutation({
-    mutationFn: async () => {
-      if (!isEmergency || savedToDatabase) return;
-      
-      const locationDetails = getLocationDetails(emergencyLocation || undefined);
-      const emergencyData = {
-        firstName: "Emergency",
-        lastName: "Patient",
-        dateOfBirth: new Date().toISOString().split('T')[0],
-        phone: "Emergency",
-        address: "Emergency Admission",
-        isEmergency: true,
-        admissionLocation: locationDetails.name,
-        onboardingStep: 2,
-        isCompleted: true,
-        emergencyType: emergencyType
-      };
-      
-      const response = await fetch('/api/patients', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(emergencyData),
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to save emergency patient');
-      }
-      
-      return response.json();
-    },
-    onSuccess: () => {
-      setSavedToDatabase(true);
-    },
-    onError: (error) => {
-      console.error('Error saving emergency patient:', error);
-    }
+  // Where each emergency unit is, from the same table the routing rules use
+  const { data: emergencyUnits, isLoading: unitsLoading } = useQuery<EmergencyUnit[]>({
+    queryKey: ["/api/emergency-units"],
+    enabled: isEmergency,
   });
 
   useEffect(() => {
@@ -95,13 +72,6 @@ export default function OnboardingConfirmation() {
     }
   }, [isCompleted, isEmergency]);
 
-  // Save emergency patient to database when component mounts
-  useEffect(() => {
-    if (isEmergency && !savedToDatabase) {
-      saveEmergencyPatient.mutate();
-    }
-  }, [isEmergency, savedToDatabase]);
-
   if (!patientId) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50 flex items-center justify-center">
@@ -117,7 +87,7 @@ export default function OnboardingConfirmation() {
     );
   }
 
-  if (isLoading) {
+  if (isLoading || unitsLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50 flex items-center justify-center">
         <Card className="max-w-md">
@@ -132,56 +102,12 @@ export default function OnboardingConfirmation() {
 
   const getLocationDetails = (location: string | undefined) => {
     if (isEmergency) {
-      // Map emergency location IDs to details
-      const emergencyLocations = {
-        emergency_room: {
-          floor: "Ground Floor",
-          wing: "East Wing",
-          icon: "🚨",
-          directions: "Enter through main entrance, follow red signs to Emergency Room",
-          estimatedTime: "2 minutes walk",
-          priority: "IMMEDIATE",
-          name: "Emergency Room"
-        },
-        icu: {
-          floor: "Floor 3",
-          wing: "North Wing",
-          icon: "🏥",
-          directions: "Take elevator to Floor 3, follow blue signs to ICU",
-          estimatedTime: "3 minutes walk",
-          priority: "IMMEDIATE",
-          name: "Intensive Care Unit"
-        },
-        trauma_center: {
-          floor: "Ground Floor",
-          wing: "West Wing",
-          icon: "🚑",
-          directions: "Enter through main entrance, follow yellow signs to Trauma Center",
-          estimatedTime: "2 minutes walk",
-          priority: "IMMEDIATE",
-          name: "Trauma Center"
-        },
-        cardiac_unit: {
-          floor: "Floor 2",
-          wing: "East Wing",
-          icon: "❤️",
-          directions: "Take elevator to Floor 2, follow red signs to Cardiac Care Unit",
-          estimatedTime: "3 minutes walk",
-          priority: "IMMEDIATE",
-          name: "Cardiac Care Unit"
-        },
-        pediatric_er: {
-          floor: "Ground Floor",
-          wing: "South Wing",
-          icon: "👶",
-          directions: "Enter through main entrance, follow green signs to Pediatric Emergency",
-          estimatedTime: "2 minutes walk",
-          priority: "IMMEDIATE",
-          name: "Pediatric Emergency"
-        }
-      };
-      
-      return emergencyLocations[emergencyLocation as keyof typeof emergencyLocations] || emergencyLocations.emergency_room;
+      const unit = emergencyUnits?.find(candidate => candidate.id === emergencyLocation)
+        ?? emergencyUnits?.find(candidate => candidate.name === location)
+        ?? emergencyUnits?.find(candidate => candidate.id === "emergency_room");
+      if (unit) {
+        return { ...unit, priority: "IMMEDIATE" };
+      }
     }
     
     if (location?.includes("Emergency")) {
@@ -260,6 +186,9 @@ export default function OnboardingConfirmation() {
           )}
         </div>
 
+        {/* Allergy and medication conflicts the care team should review */}
+        <InteractionWarnings patientId={patientId} audience="patient" className="mb-8" />
+
         <div className="grid md:grid-cols-2 gap-8">
           {/* Admission Location Card */}
           <Card className="shadow-lg border-0 bg-white/90 backdrop-blur-sm">
@@ -352,7 +281,7 @@ export default function OnboardingConfirmation() {
                 <div className="flex justify-between items-center py-2 border-b border-gray-100">
                   <span className="text-gray-600 text-sm">Full Name:</span>
                   <span className="font-medium text-gray-900">
-                    {isEmergency ? "Emergency Patient" : `${patient?.firstName} ${patient?.lastName}`}
+                    {patient?.isProvisional ? `${patient.firstName} ${patient.lastName} (identity pending)` : `${patient?.firstName} ${patient?.lastName}`}
                   </span>
                 </div>
                 <div className="flex justify-between items-center py-2 border-b border-gray-100">
@@ -392,6 +321,11 @@ export default function OnboardingConfirmation() {
                     </Badge>
                   </div>
                 )}
+                {patient?.dispatchId && (
+                  <div className="pt-3 border-t border-gray-200">
+                    <AmbulanceTracker dispatchId={patient.dispatchId} />
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
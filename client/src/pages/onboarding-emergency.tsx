@@ -1,8 +1,15 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import AmbulanceTracker from "@/components/ambulance-tracker";
+import { toVitalSigns, VitalSignsFields, type EarlyWarningScore, type VitalSignsDraft } from "@/components/vital-signs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
 import { 
@@ -18,7 +25,6 @@ import {
   Stethoscope,
   Navigation,
   Phone,
-  Car,
   CheckCircle
 } from "lucide-react";
 
@@ -32,23 +38,28 @@ const emergencyTypes = [
   { value: "general", label: "General Emergency", description: "Other urgent medical conditions" }
 ];
 
-const emergencyLocations = [
-  { id: "emergency_room", name: "Emergency Room", floor: "Ground Floor", wing: "East Wing", waitTime: "Immediate" },
-  { id: "icu", name: "Intensive Care Unit", floor: "Floor 3", wing: "North Wing", waitTime: "Immediate" },
-  { id: "trauma_center", name: "Trauma Center", floor: "Ground Floor", wing: "West Wing", waitTime: "Immediate" },
-  { id: "cardiac_unit", name: "Cardiac Care Unit", floor: "Floor 2", wing: "East Wing", waitTime: "Immediate" },
-  { id: "pediatric_er", name: "Pediatric Emergency", floor: "Ground Floor", wing: "South Wing", waitTime: "Immediate" }
-];
+interface EmergencyIntakeResult {
+  success: boolean;
+  patientId: string;
+  location: { id: string; name: string };
+  // Present when vitals were sent with the intake
+  earlyWarning?: EarlyWarningScore;
+}
 
 export default function OnboardingEmergency() {
   const [, setLocation] = useLocation();
+  // Anyone can request an ambulance here; registering the patient is for staff
+  const { user } = useAuth();
   const [selectedEmergencyType, setSelectedEmergencyType] = useState<string>('');
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [patientSex, setPatientSex] = useState<string>('unknown');
+  const [approximateAge, setApproximateAge] = useState('');
+  const [dispatchId, setDispatchId] = useState<string>();
+  const [vitals, setVitals] = useState<VitalSignsDraft>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [currentLocation, setCurrentLocation] = useState<{lat: number, lng: number} | null>(null);
   const [isLocating, setIsLocating] = useState(false);
   const [ambulanceArranged, setAmbulanceArranged] = useState(false);
-  const [ambulanceETA, setAmbulanceETA] = useState<string>('');
-  const [trackingActive, setTrackingActive] = useState(false);
   
   const progress = 50; // Emergency is faster - only 2 steps
 
@@ -109,50 +120,57 @@ export default function OnboardingEmergency() {
 
       const data = await response.json();
       setAmbulanceArranged(true);
-      setAmbulanceETA(data.eta);
-      setTrackingActive(true);
-      
-      console.log('Ambulance arranged:', data);
+      setDispatchId(data.dispatchId);
     } catch (error) {
       console.error('Ambulance arrangement failed:', error);
-      // Fallback to local simulation
-      setAmbulanceArranged(true);
-      const baseETA = Math.floor(Math.random() * 8) + 3;
-      setAmbulanceETA(`${baseETA} minutes`);
+      toast({
+        title: "Ambulance Request Failed",
+        description: "Could not reach dispatch. Please call emergency services directly.",
+        variant: "destructive",
+      });
     }
   };
 
+  // The server creates a provisional patient and picks the receiving unit
+  const intakeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/emergency/intake", {
+        emergencyType: selectedEmergencyType,
+        sex: patientSex,
+        ageYears: approximateAge.trim() ? Number(approximateAge) : undefined,
+        dispatchId,
+        vitals: toVitalSigns(vitals),
+      });
+      return response.json() as Promise<EmergencyIntakeResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      if (result.earlyWarning && result.earlyWarning.risk !== "low") {
+        toast({
+          title: `NEWS2 ${result.earlyWarning.score} - ${result.earlyWarning.risk} risk`,
+          description: "Early-warning score escalated to the receiving team",
+          variant: "destructive",
+        });
+      }
+      setLocation(`/onboarding/confirmation?patientId=${result.patientId}&emergency=true&emergencyLocation=${result.location.id}&emergencyType=${selectedEmergencyType}`);
+    },
+    onError: (error) => {
+      console.error("Emergency intake error:", error);
+      toast({
+        title: "Registration Failed",
+        description: "Could not register the emergency. Please alert staff directly.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isProcessing = intakeMutation.isPending;
+
   const handleCompleteEmergency = () => {
     if (!selectedEmergencyType) return;
-    
-    setIsProcessing(true);
-    
-    // Simulate processing time
-    setTimeout(() => {
-      // Generate random location based on emergency type
-      let location;
-      switch (selectedEmergencyType) {
-        case 'cardiac':
-          location = emergencyLocations.find(l => l.id === 'cardiac_unit') || emergencyLocations[0];
-          break;
-        case 'trauma':
-          location = emergencyLocations.find(l => l.id === 'trauma_center') || emergencyLocations[0];
-          break;
-        case 'pediatric':
-          location = emergencyLocations.find(l => l.id === 'pediatric_er') || emergencyLocations[0];
-          break;
-        default:
-          location = emergencyLocations[Math.floor(Math.random() * emergencyLocations.length)];
-      }
-      
-      // Generate proper patient ID using timestamp and random string
-      const timestamp = Date.now().toString(36);
-      const randomStr = Math.random().toString(36).substring(2, 10);
-      const patientId = `EMG-${timestamp}-${randomStr}`.toUpperCase();
-      
-      // Navigate to confirmation with emergency data
-      setLocation(`/onboarding/confirmation?patientId=${patientId}&emergency=true&emergencyLocation=${location.id}&emergencyType=${selectedEmergencyType}`);
-    }, 2000);
+    intakeMutation.mutate();
   };
 
   const selectedEmergency = emergencyTypes.find(e => e.value === selectedEmergencyType);
@@ -253,6 +271,47 @@ export default function OnboardingEmergency() {
               </Select>
             </div>
 
+            {/* Patient Sex - names the provisional record John or Jane Doe */}
+            <div className="space-y-2">
+              <Label htmlFor="patientSex" className="font-medium text-gray-900">
+                Patient sex (if known)
+              </Label>
+              <Select onValueChange={setPatientSex} value={patientSex}>
+                <SelectTrigger id="patientSex">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unknown">Unknown</SelectItem>
+                  <SelectItem value="male">Male</SelectItem>
+                  <SelectItem value="female">Female</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Approximate Age - lets the routing rules send children to pediatrics */}
+            <div className="space-y-2">
+              <Label htmlFor="approximateAge" className="font-medium text-gray-900">
+                Approximate age in years (if known)
+              </Label>
+              <Input
+                id="approximateAge"
+                type="number"
+                min={0}
+                max={130}
+                value={approximateAge}
+                onChange={(e) => setApproximateAge(e.target.value)}
+                className="w-32"
+              />
+            </div>
+
+            {/* Vital Signs - optional, scored server-side for early warning */}
+            <div className="space-y-2">
+              <Label className="font-medium text-gray-900">
+                Vital signs (if measured)
+              </Label>
+              <VitalSignsFields value={vitals} onChange={setVitals} />
+            </div>
+
             {/* Selected Emergency Info */}
             {selectedEmergency && (
               <div className="bg-orange-50 rounded-xl p-6 border border-orange-200">
@@ -317,22 +376,13 @@ export default function OnboardingEmergency() {
                           <MapPin className="h-4 w-4 mr-2" />
                           <span>Location detected and ambulance dispatched</span>
                         </div>
-                        <div className="flex items-center text-green-700">
-                          <Clock className="h-4 w-4 mr-2" />
-                          <span>ETA: {ambulanceETA}</span>
-                        </div>
                         <div className="flex items-center text-green-700">
                           <Phone className="h-4 w-4 mr-2" />
                           <span>Emergency services notified</span>
                         </div>
-                        <div className="flex items-center text-green-700">
-                          <Car className="h-4 w-4 mr-2" />
-                          <span>Ambulance en route to your location</span>
-                        </div>
-                        {trackingActive && (
-                          <div className="flex items-center text-blue-700 mt-2">
-                            <div className="w-2 h-2 bg-blue-500 rounded-full mr-2 animate-pulse"></div>
-                            <span className="text-xs">Live tracking active</span>
+                        {dispatchId && (
+                          <div className="mt-3 pt-3 border-t border-green-200">
+                            <AmbulanceTracker dispatchId={dispatchId} />
                           </div>
                         )}
                       </div>
@@ -367,23 +417,33 @@ export default function OnboardingEmergency() {
                 Back to Welcome
               </Button>
 
-              <Button
-                onClick={handleCompleteEmergency}
-                disabled={!selectedEmergencyType || isProcessing}
-                className="bg-red-600 hover:bg-red-700 text-white"
-              >
-                {isProcessing ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                    Processing Emergency...
-                  </>
-                ) : (
-                  <>
-                    Complete Emergency Registration
-                    <ArrowRight className="h-4 w-4 ml-2" />
-                  </>
-                )}
-              </Button>
+              {!user ? (
+                <Button
+                  onClick={() => setLocation(`/login?redirect=${encodeURIComponent("/onboarding/emergency")}`)}
+                  className="bg-red-600 hover:bg-red-700 text-white"
+                >
+                  Staff Sign In to Register
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleCompleteEmergency}
+                  disabled={!selectedEmergencyType || isProcessing}
+                  className="bg-red-600 hover:bg-red-700 text-white"
+                >
+                  {isProcessing ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                      Processing Emergency...
+                    </>
+                  ) : (
+                    <>
+                      Complete Emergency Registration
+                      <ArrowRight className="h-4 w-4 ml-2" />
+                    </>
+                  )}
+                </Button>
+              )}
             </div>
           </CardContent>
         </Card>
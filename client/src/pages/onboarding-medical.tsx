@@ -1,17 +1,26 @@
 import { useState } from "react";
-import { useForm } from "react-hook-form";
+import { Controller, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import Navigation from "@/components/navigation";
+import {
+  AllergyEntries,
+  ConditionEntries,
+  MedicationEntries,
+  allergyFromText,
+  conditionFromText,
+  medicationFromText,
+} from "@/components/medical-history-entries";
 import { 
   ArrowLeft, 
   ArrowRight, 
@@ -27,28 +36,51 @@ import {
   Brain,
   Stethoscope
 } from "lucide-react";
+import { medicalInfoSchema, type MedicalInfo } from "@shared/schema";
 
-const medicalHistorySchema = z.object({
-  allergies: z.string().optional(),
-  medications: z.string().optional(),
-  medicalHistory: z.object({
-    conditions: z.string().optional(),
-    surgeries: z.string().optional(),
-    familyHistory: z.string().optional(),
-  }).optional(),
-});
+type MedicalFormField =
+  | "allergies"
+  | "medications"
+  | "medicalHistory.conditions"
+  | "medicalHistory.surgeries"
+  | "medicalHistory.familyHistory";
 
-const commonAllergies = [
-  "Penicillin", "Latex", "Peanuts", "Shellfish", "Dairy", "Eggs", "Soy", "Wheat", "Dust", "Pollen"
-];
+interface ExtractedField {
+  items: string[];
+  confidence: number;
+}
 
-const commonMedications = [
-  "Aspirin", "Ibuprofen", "Acetaminophen", "Insulin", "Metformin", "Lisinopril", "Amlodipine", "Atorvastatin", "Omeprazole", "Albuterol"
-];
+interface MedicalRecordAnalysis {
+  success: boolean;
+  documentId: string;
+  confidence: number;
+  medicalHistory?: Record<"allergies" | "medications" | "conditions" | "surgeries" | "familyHistory", ExtractedField>;
+  flags: string[];
+}
 
-const medicalConditions = [
-  "Diabetes", "Hypertension", "Asthma", "Heart Disease", "Arthritis", "Depression", "Anxiety", "Cancer", "Stroke", "Kidney Disease"
-];
+// Where each section of the extracted history lands in the form
+const extractedFieldTargets = {
+  allergies: "allergies",
+  medications: "medications",
+  conditions: "medicalHistory.conditions",
+  surgeries: "medicalHistory.surgeries",
+  familyHistory: "medicalHistory.familyHistory",
+} as const;
+
+// Shown next to a field the AI filled in until someone confirms or edits it
+function ReviewBadge({ confidence, onConfirm }: { confidence?: number; onConfirm: () => void }) {
+  if (confidence === undefined) return null;
+  return (
+    <Badge
+      variant="outline"
+      className={`ml-2 cursor-pointer ${confidence < 60 ? "border-red-300 bg-red-50 text-red-700" : "border-amber-300 bg-amber-50 text-amber-700"}`}
+      onClick={onConfirm}
+      title="Click to confirm this information is correct"
+    >
+      AI filled · {confidence}% · Confirm
+    </Badge>
+  );
+}
 
 export default function OnboardingMedical() {
   const [, setLocation] = useLocation();
@@ -56,9 +88,8 @@ export default function OnboardingMedical() {
   const queryClient = useQueryClient();
   const [uploadingDocument, setUploadingDocument] = useState(false);
   const [aiAnalysisComplete, setAiAnalysisComplete] = useState(false);
-  const [selectedAllergies, setSelectedAllergies] = useState<string[]>([]);
-  const [selectedMedications, setSelectedMedications] = useState<string[]>([]);
-  const [selectedConditions, setSelectedConditions] = useState<string[]>([]);
+  const [reviewFields, setReviewFields] = useState<Partial<Record<MedicalFormField, number>>>({});
+  const [requiresIsolation, setRequiresIsolation] = useState(false);
   
   // Get patient ID from URL params
   const urlParams = new URLSearchParams(window.location.search);
@@ -69,13 +100,13 @@ export default function OnboardingMedical() {
     return null;
   }
   
-  const form = useForm({
-    resolver: zodResolver(medicalHistorySchema),
+  const form = useForm<MedicalInfo>({
+    resolver: zodResolver(medicalInfoSchema),
     defaultValues: {
-      allergies: "",
-      medications: "",
+      allergies: [],
+      medications: [],
       medicalHistory: {
-        conditions: "",
+        conditions: [],
         surgeries: "",
         familyHistory: "",
       },
@@ -99,6 +130,17 @@ export default function OnboardingMedical() {
     },
     onError: (error) => {
       console.error("Update error:", error);
+      // Show the server's field errors next to the fields this form has;
+      // an error on one entry ("allergies.0.substance") goes on its list
+      const fields = (error instanceof ApiError && error.fields) || {};
+      const formFields = Object.values(extractedFieldTargets) as MedicalFormField[];
+      const formFieldOf = (key: string) =>
+        formFields.find(field => key === field || key.startsWith(`${field}.`));
+      const shown = Object.keys(fields).filter(key => formFieldOf(key));
+      shown.forEach(key => form.setError(formFieldOf(key)!, { message: fields[key] }));
+      if (shown.length > 0 && shown.length === Object.keys(fields).length) {
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to save medical information. Please try again.",
@@ -107,6 +149,21 @@ export default function OnboardingMedical() {
     },
   });
 
+  const markReviewed = (field: MedicalFormField) => {
+    setReviewFields(prev => {
+      const { [field]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const errorMessage = (field: MedicalFormField) => {
+    const message = form.getFieldState(field, form.formState).error?.message;
+    return message ? <p className="text-sm text-red-500 mt-1">{message}</p> : null;
+  };
+
+  const reviewClass = (field: MedicalFormField) =>
+    reviewFields[field] !== undefined ? "border-amber-400 bg-amber-50" : "";
+
   const uploadDocumentMutation = useMutation({
     mutationFn: async (file: File) => {
       const formData = new FormData();
@@ -118,37 +175,61 @@ export default function OnboardingMedical() {
         credentials: 'include',
       });
       
+      const result = await response.json();
       if (!response.ok) {
-        throw new Error('Upload failed');
+        throw new Error(result.error || 'Upload failed');
       }
       
-      return response.json();
+      return result as MedicalRecordAnalysis;
     },
     onSuccess: (result) => {
+      const history = result.medicalHistory;
+      const filled: Partial<Record<MedicalFormField, number>> = {};
+
+      for (const [key, target] of Object.entries(extractedFieldTargets)) {
+        const section = history?.[key as keyof typeof extractedFieldTargets];
+        if (section && section.items.length > 0) {
+          filled[target] = section.confidence;
+        }
+      }
+
+      // Listed items become entries, coded when they match a pick-list term
+      const items = (key: keyof typeof extractedFieldTargets) => history?.[key]?.items ?? [];
+      if (filled.allergies !== undefined) {
+        form.setValue("allergies", items("allergies").map(allergyFromText));
+      }
+      if (filled.medications !== undefined) {
+        form.setValue("medications", items("medications").map(medicationFromText));
+      }
+      if (filled["medicalHistory.conditions"] !== undefined) {
+        form.setValue("medicalHistory.conditions", items("conditions").map(conditionFromText));
+      }
+      if (filled["medicalHistory.surgeries"] !== undefined) {
+        form.setValue("medicalHistory.surgeries", items("surgeries").join(", "));
+      }
+      if (filled["medicalHistory.familyHistory"] !== undefined) {
+        form.setValue("medicalHistory.familyHistory", items("familyHistory").join(", "));
+      }
+
+      setReviewFields(filled);
       setAiAnalysisComplete(true);
-      toast({
-        title: "AI Analysis Complete!",
-        description: "Medical information extracted and auto-filled.",
-      });
-      
-      // Simulate AI extracting medical data
-      setTimeout(() => {
-        // Auto-fill with some sample data
-        form.setValue("allergies", "Penicillin, Latex");
-        form.setValue("medications", "Aspirin, Metformin");
-        form.setValue("medicalHistory.conditions", "Hypertension, Type 2 Diabetes");
-        form.setValue("medicalHistory.surgeries", "Appendectomy (2015)");
-        form.setValue("medicalHistory.familyHistory", "Father: Heart Disease, Mother: Diabetes");
-        
-        setSelectedAllergies(["Penicillin", "Latex"]);
-        setSelectedMedications(["Aspirin", "Metformin"]);
-        setSelectedConditions(["Hypertension", "Diabetes"]);
-      }, 1000);
+
+      if (Object.keys(filled).length === 0) {
+        toast({
+          title: "Nothing to Fill In",
+          description: "No medical history was found in this document. You can continue manually.",
+        });
+      } else {
+        toast({
+          title: "AI Analysis Complete!",
+          description: "Please review the highlighted fields before continuing.",
+        });
+      }
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Upload Failed",
-        description: "Failed to analyze document. You can continue manually.",
+        description: `${error.message}. You can continue manually.`,
         variant: "destructive",
       });
     },
@@ -166,33 +247,6 @@ export default function OnboardingMedical() {
     }
   };
 
-  const toggleAllergy = (allergy: string) => {
-    setSelectedAllergies(prev => 
-      prev.includes(allergy) 
-        ? prev.filter(a => a !== allergy)
-        : [...prev, allergy]
-    );
-    form.setValue("allergies", selectedAllergies.join(", "));
-  };
-
-  const toggleMedication = (medication: string) => {
-    setSelectedMedications(prev => 
-      prev.includes(medication) 
-        ? prev.filter(m => m !== medication)
-        : [...prev, medication]
-    );
-    form.setValue("medications", selectedMedications.join(", "));
-  };
-
-  const toggleCondition = (condition: string) => {
-    setSelectedConditions(prev => 
-      prev.includes(condition) 
-        ? prev.filter(c => c !== condition)
-        : [...prev, condition]
-    );
-    form.setValue("medicalHistory.conditions", selectedConditions.join(", "));
-  };
-
   const completeOnboardingMutation = useMutation({
     mutationFn: async () => {
       if (!patientId) {
@@ -203,10 +257,10 @@ export default function OnboardingMedical() {
       const formData = form.getValues();
       await updatePatientMutation.mutateAsync(formData);
       
-      // Then complete onboarding
-      const admissionLocation = "General Admission - Room 204B";
+      // Then complete onboarding; the server reserves the bed
       const response = await apiRequest("POST", `/api/patients/${patientId}/complete`, {
-        admissionLocation,
+        unit: "general_admission",
+        requiresIsolation,
       });
       return response.json();
     },
@@ -218,15 +272,25 @@ export default function OnboardingMedical() {
     },
     onError: (error) => {
       console.error("Complete onboarding error:", error);
+      // A full unit comes back as 409 with a message saying which
+      const unitFull = error instanceof ApiError && error.status === 409;
       toast({
-        title: "Error",
-        description: "Failed to complete onboarding. Please try again.",
+        title: unitFull ? "No bed available" : "Error",
+        description: unitFull ? error.body?.error : "Failed to complete onboarding. Please try again.",
         variant: "destructive",
       });
     },
   });
 
   const onSubmit = (data: any) => {
+    if (Object.keys(reviewFields).length > 0) {
+      toast({
+        title: "Review Required",
+        description: "Please confirm or correct the highlighted AI-filled fields.",
+        variant: "destructive",
+      });
+      return;
+    }
     completeOnboardingMutation.mutate();
   };
 
@@ -285,7 +349,7 @@ export default function OnboardingMedical() {
                 id="medical-file-upload"
                 type="file"
                 className="hidden"
-                accept="image/*,.pdf"
+                accept="image/*,.pdf,.txt"
                 onChange={handleFileUpload}
               />
               <p className="text-xs text-gray-500 mt-2">
@@ -295,142 +359,147 @@ export default function OnboardingMedical() {
               {aiAnalysisComplete && (
                 <div className="mt-4 flex items-center justify-center text-green-600">
                   <CheckCircle className="h-4 w-4 mr-2" />
-                  <span className="text-sm font-medium">AI Analysis Complete!</span>
+                  <span className="text-sm font-medium">
+                    {Object.keys(reviewFields).length > 0
+                      ? `AI Analysis Complete - ${Object.keys(reviewFields).length} field(s) to review`
+                      : "AI Analysis Complete!"}
+                  </span>
                 </div>
               )}
             </div>
 
-            {/* Quick Selection Cards */}
-            <div className="grid md:grid-cols-3 gap-6">
+            {/* Coded Entry Cards */}
+            <div className="space-y-6">
               {/* Allergies */}
-              <Card className="border-2 hover:border-blue-300 transition-colors">
+              <Card className={`border-2 hover:border-blue-300 transition-colors ${reviewClass("allergies")}`}>
                 <CardHeader className="pb-3">
                   <CardTitle className="text-lg flex items-center">
                     <AlertTriangle className="h-5 w-5 text-red-500 mr-2" />
                     Allergies
+                    <ReviewBadge confidence={reviewFields.allergies} onConfirm={() => markReviewed("allergies")} />
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="flex flex-wrap gap-2">
-                    {commonAllergies.map((allergy) => (
-                      <Button
-                        key={allergy}
-                        type="button"
-                        variant={selectedAllergies.includes(allergy) ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => toggleAllergy(allergy)}
-                        className={selectedAllergies.includes(allergy) ? "bg-red-100 text-red-700 border-red-300" : ""}
-                      >
-                        {allergy}
-                      </Button>
-                    ))}
-                  </div>
+                  <Controller
+                    control={form.control}
+                    name="allergies"
+                    render={({ field }) => (
+                      <AllergyEntries
+                        value={field.value ?? []}
+                        onChange={(value) => {
+                          field.onChange(value);
+                          markReviewed("allergies");
+                        }}
+                      />
+                    )}
+                  />
+                  {errorMessage("allergies")}
                 </CardContent>
               </Card>
 
               {/* Medications */}
-              <Card className="border-2 hover:border-blue-300 transition-colors">
+              <Card className={`border-2 hover:border-blue-300 transition-colors ${reviewClass("medications")}`}>
                 <CardHeader className="pb-3">
                   <CardTitle className="text-lg flex items-center">
                     <Pill className="h-5 w-5 text-blue-500 mr-2" />
                     Current Medications
+                    <ReviewBadge confidence={reviewFields.medications} onConfirm={() => markReviewed("medications")} />
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="flex flex-wrap gap-2">
-                    {commonMedications.map((medication) => (
-                      <Button
-                        key={medication}
-                        type="button"
-                        variant={selectedMedications.includes(medication) ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => toggleMedication(medication)}
-                        className={selectedMedications.includes(medication) ? "bg-blue-100 text-blue-700 border-blue-300" : ""}
-                      >
-                        {medication}
-                      </Button>
-                    ))}
-                  </div>
+                  <Controller
+                    control={form.control}
+                    name="medications"
+                    render={({ field }) => (
+                      <MedicationEntries
+                        value={field.value ?? []}
+                        onChange={(value) => {
+                          field.onChange(value);
+                          markReviewed("medications");
+                        }}
+                      />
+                    )}
+                  />
+                  {errorMessage("medications")}
                 </CardContent>
               </Card>
 
               {/* Medical Conditions */}
-              <Card className="border-2 hover:border-blue-300 transition-colors">
+              <Card className={`border-2 hover:border-blue-300 transition-colors ${reviewClass("medicalHistory.conditions")}`}>
                 <CardHeader className="pb-3">
                   <CardTitle className="text-lg flex items-center">
                     <Heart className="h-5 w-5 text-green-500 mr-2" />
                     Medical Conditions
+                    <ReviewBadge
+                      confidence={reviewFields["medicalHistory.conditions"]}
+                      onConfirm={() => markReviewed("medicalHistory.conditions")}
+                    />
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="flex flex-wrap gap-2">
-                    {medicalConditions.map((condition) => (
-                      <Button
-                        key={condition}
-                        type="button"
-                        variant={selectedConditions.includes(condition) ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => toggleCondition(condition)}
-                        className={selectedConditions.includes(condition) ? "bg-green-100 text-green-700 border-green-300" : ""}
-                      >
-                        {condition}
-                      </Button>
-                    ))}
-                  </div>
+                  <Controller
+                    control={form.control}
+                    name="medicalHistory.conditions"
+                    render={({ field }) => (
+                      <ConditionEntries
+                        value={field.value ?? []}
+                        onChange={(value) => {
+                          field.onChange(value);
+                          markReviewed("medicalHistory.conditions");
+                        }}
+                      />
+                    )}
+                  />
+                  {errorMessage("medicalHistory.conditions")}
                 </CardContent>
               </Card>
             </div>
 
             {/* Manual Entry Form */}
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-              <div className="grid md:grid-cols-2 gap-6">
-                <div>
-                  <Label htmlFor="allergies" className="text-sm font-medium text-gray-700">
-                    Allergies (Additional)
-                  </Label>
-                  <Textarea
-                    id="allergies"
-                    {...form.register("allergies")}
-                    placeholder="List any additional allergies..."
-                    className="mt-1 h-20"
-                  />
-                </div>
-                
-                <div>
-                  <Label htmlFor="medications" className="text-sm font-medium text-gray-700">
-                    Medications (Additional)
-                  </Label>
-                  <Textarea
-                    id="medications"
-                    {...form.register("medications")}
-                    placeholder="List any additional medications..."
-                    className="mt-1 h-20"
-                  />
-                </div>
-              </div>
-
               <div>
                 <Label htmlFor="surgeries" className="text-sm font-medium text-gray-700">
                   Past Surgeries
                 </Label>
+                <ReviewBadge
+                  confidence={reviewFields["medicalHistory.surgeries"]}
+                  onConfirm={() => markReviewed("medicalHistory.surgeries")}
+                />
                 <Textarea
                   id="surgeries"
-                  {...form.register("medicalHistory.surgeries")}
+                  {...form.register("medicalHistory.surgeries", { onChange: () => markReviewed("medicalHistory.surgeries") })}
                   placeholder="List any past surgeries with dates..."
-                  className="mt-1 h-20"
+                  className={`mt-1 h-20 ${reviewClass("medicalHistory.surgeries")}`}
                 />
+                {errorMessage("medicalHistory.surgeries")}
               </div>
 
               <div>
                 <Label htmlFor="familyHistory" className="text-sm font-medium text-gray-700">
                   Family Medical History
                 </Label>
+                <ReviewBadge
+                  confidence={reviewFields["medicalHistory.familyHistory"]}
+                  onConfirm={() => markReviewed("medicalHistory.familyHistory")}
+                />
                 <Textarea
                   id="familyHistory"
-                  {...form.register("medicalHistory.familyHistory")}
+                  {...form.register("medicalHistory.familyHistory", { onChange: () => markReviewed("medicalHistory.familyHistory") })}
                   placeholder="Any relevant family medical history..."
-                  className="mt-1 h-20"
+                  className={`mt-1 h-20 ${reviewClass("medicalHistory.familyHistory")}`}
+                />
+                {errorMessage("medicalHistory.familyHistory")}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="requiresIsolation"
+                  checked={requiresIsolation}
+                  onCheckedChange={(checked) => setRequiresIsolation(checked === true)}
                 />
+                <Label htmlFor="requiresIsolation" className="text-sm font-medium text-gray-700">
+                  Needs an isolation room (suspected infectious disease)
+                </Label>
               </div>
 
               {/* Action Buttons */}
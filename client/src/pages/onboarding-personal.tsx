@@ -3,7 +3,6 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -24,17 +23,7 @@ import {
   Home
 } from "lucide-react";
 import FileUpload from "@/components/file-upload";
-
-const personalInfoSchema = z.object({
-  firstName: z.string().min(1, "First name is required"),
-  lastName: z.string().min(1, "Last name is required"),
-  dateOfBirth: z.string().min(1, "Date of birth is required"),
-  phone: z.string().min(10, "Valid phone number is required"),
-  address: z.string().min(1, "Address is required"),
-  emergencyContactName: z.string().optional(),
-  emergencyContactRelationship: z.string().optional(),
-  emergencyContactPhone: z.string().optional(),
-});
+import { personalInfoSchema } from "@shared/schema";
 
 export default function OnboardingPersonal() {
   const [, setLocation] = useLocation();
@@ -65,7 +54,6 @@ export default function OnboardingPersonal() {
       const response = await apiRequest("POST", "/api/patients", {
         ...data,
         isEmergency: isEmergency,
-        onboardingStep: 1,
       });
       return response.json();
     },
@@ -0,0 +1,686 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import Navigation from "@/components/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import {
+  ArrowLeft,
+  User,
+  Phone,
+  Shield,
+  Heart,
+  FileText,
+  Clock,
+  History,
+  Pencil,
+  AlertTriangle,
+  LogOut,
+} from "lucide-react";
+import { AllergyEntries, ConditionEntries, MedicationEntries } from "@/components/medical-history-entries";
+import InteractionWarnings from "@/components/interaction-warnings";
+import VitalSignsPanel from "@/components/vital-signs";
+import type { Allergy, Condition, MedicalCode, MedicalHistory, Medication } from "@shared/schema";
+
+interface PatientRecord {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  phone: string;
+  address: string;
+  emergencyContactName?: string;
+  emergencyContactRelationship?: string;
+  emergencyContactPhone?: string;
+  insuranceProvider?: string;
+  insurancePolicyNumber?: string;
+  insuranceGroupNumber?: string;
+  insuranceStatus?: string;
+  medicalHistory?: MedicalHistory;
+  allergies?: Allergy[];
+  medications?: Medication[];
+  onboardingStep: number;
+  isCompleted: boolean;
+  isEmergency: boolean;
+  isProvisional?: boolean;
+  admissionLocation?: string;
+  bedId?: string | null;
+  dischargedAt?: string;
+  emergencyType?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface PatientChange {
+  _id: string;
+  changes: { field: string; oldValue?: unknown; newValue?: unknown }[];
+  changedByName?: string;
+  createdAt: string;
+}
+
+interface Activity {
+  _id: string;
+  action: string;
+  description: string;
+  createdAt: string;
+}
+
+interface PatientDocument {
+  id: string;
+  type: string;
+  fileName: string;
+  uploadedAt: string;
+  status: string;
+}
+
+interface FieldSpec {
+  field: string;
+  label: string;
+  multiline?: boolean;
+  type?: string;
+}
+
+const fieldLabels: Record<string, string> = {
+  firstName: "First name",
+  lastName: "Last name",
+  dateOfBirth: "Date of birth",
+  phone: "Phone",
+  address: "Address",
+  sex: "Sex",
+  emergencyContactName: "Emergency contact",
+  emergencyContactRelationship: "Relationship",
+  emergencyContactPhone: "Emergency phone",
+  insuranceProvider: "Insurance provider",
+  insurancePolicyNumber: "Policy number",
+  insuranceGroupNumber: "Group number",
+  insuranceStatus: "Insurance status",
+  allergies: "Allergies",
+  medications: "Medications",
+  "medicalHistory.conditions": "Conditions",
+  "medicalHistory.surgeries": "Surgeries",
+  "medicalHistory.familyHistory": "Family history",
+  onboardingStep: "Onboarding step",
+  isCompleted: "Onboarding completed",
+  isProvisional: "Provisional record",
+  admissionLocation: "Admission location",
+  dischargedAt: "Discharged",
+};
+
+function readField(patient: PatientRecord, field: string): string {
+  const value = (patient as unknown as Record<string, unknown>)[field];
+  return value === undefined || value === null ? "" : String(value);
+}
+
+// Turns edited fields back into a PATCH body with only what changed
+function toUpdates(patient: PatientRecord, draft: Record<string, string>) {
+  return Object.fromEntries(Object.entries(draft).filter(([field, value]) => value !== readField(patient, field)));
+}
+
+// Allergy, medication and condition lists are summarised by what each entry names
+function entryName(entry: unknown) {
+  if (typeof entry !== "object" || entry === null) return String(entry);
+  const { substance, name } = entry as { substance?: string; name?: string };
+  return substance ?? name ?? JSON.stringify(entry);
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null || value === "") return "(empty)";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.length > 0 ? value.map(entryName).join(", ") : "(none)";
+  return String(value);
+}
+
+/**
+ * Card listing a group of fields, switching to inputs in place when edited
+ */
+function EditableSection({
+  title,
+  icon: Icon,
+  fields,
+  patient,
+  canEdit,
+}: {
+  title: string;
+  icon: typeof User;
+  fields: FieldSpec[];
+  patient: PatientRecord;
+  canEdit: boolean;
+}) {
+  const [draft, setDraft] = useState<Record<string, string> | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: Record<string, unknown>) => {
+      const response = await apiRequest("PATCH", `/api/patients/${patient._id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      setDraft(null);
+      setErrors({});
+      toast({ title: "Saved", description: `${title} updated` });
+    },
+    onError: (error) => {
+      const fields = error instanceof ApiError ? error.fields : undefined;
+      if (fields) {
+        setErrors(fields);
+        // Errors for fields outside this section can't be shown next to an input
+        const unshown = Object.entries(fields).filter(([field]) => !draft || !(field in draft));
+        if (unshown.length === 0) return;
+        toast({ title: "Not saved", description: unshown.map(([, message]) => message).join(". "), variant: "destructive" });
+        return;
+      }
+      toast({ title: "Error", description: `Failed to save ${title.toLowerCase()}`, variant: "destructive" });
+    },
+  });
+
+  const startEditing = () => {
+    setErrors({});
+    setDraft(Object.fromEntries(fields.map(({ field }) => [field, readField(patient, field)])));
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const updates = toUpdates(patient, draft);
+    if (Object.keys(updates).length === 0) {
+      setDraft(null);
+      return;
+    }
+    saveMutation.mutate(updates);
+  };
+
+  return (
+    <Card className="shadow-lg border-0">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="flex items-center text-lg">
+          <Icon className="h-5 w-5 mr-2 text-blue-600" />
+          {title}
+        </CardTitle>
+        {canEdit && !draft && (
+          <Button variant="ghost" size="sm" onClick={startEditing} data-testid={`button-edit-${title.toLowerCase().replace(/\s+/g, "-")}`}>
+            <Pencil className="h-4 w-4 mr-1" />
+            Edit
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {draft ? (
+          <div className="space-y-3">
+            {fields.map(({ field, label, multiline, type }) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={field}>{label}</Label>
+                {multiline ? (
+                  <Textarea
+                    id={field}
+                    value={draft[field]}
+                    onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                  />
+                ) : (
+                  <Input
+                    id={field}
+                    type={type || "text"}
+                    value={draft[field]}
+                    onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                  />
+                )}
+                {errors[field] && <p className="text-sm text-red-500">{errors[field]}</p>}
+              </div>
+            ))}
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => { setDraft(null); setErrors({}); }} disabled={saveMutation.isPending}>
+                Cancel
+              </Button>
+              <Button className="bg-blue-600 hover:bg-blue-700" onClick={save} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <dl className="space-y-2">
+            {fields.map(({ field, label }) => (
+              <div key={field} className="flex justify-between gap-4 text-sm">
+                <dt className="text-gray-500">{label}</dt>
+                <dd className="text-gray-900 text-right whitespace-pre-wrap">{readField(patient, field) || "—"}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface MedicalDraft {
+  allergies: Allergy[];
+  medications: Medication[];
+  conditions: Condition[];
+  surgeries: string;
+  familyHistory: string;
+}
+
+function medicalDraft(patient: PatientRecord): MedicalDraft {
+  return {
+    allergies: patient.allergies ?? [],
+    medications: patient.medications ?? [],
+    conditions: patient.medicalHistory?.conditions ?? [],
+    surgeries: patient.medicalHistory?.surgeries ?? "",
+    familyHistory: patient.medicalHistory?.familyHistory ?? "",
+  };
+}
+
+// One line per entry: its details joined, then its code if it has one
+function EntrySummary<T extends { code?: MedicalCode }>({ entries, details }: {
+  entries: T[];
+  details: (entry: T) => (string | undefined)[];
+}) {
+  if (entries.length === 0) return <span className="text-gray-400">—</span>;
+  return (
+    <ul className="space-y-1">
+      {entries.map((entry, index) => (
+        <li key={index} className="text-gray-900">
+          {details(entry).filter(Boolean).join(" · ")}
+          {entry.code && <span className="ml-2 text-xs text-gray-500 font-mono">{entry.code.system} {entry.code.code}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Coded allergies, medications and conditions plus the free-text history,
+ * edited with the same pick-lists as the onboarding medical step
+ */
+function MedicalSection({ patient, canEdit }: { patient: PatientRecord; canEdit: boolean }) {
+  const [draft, setDraft] = useState<MedicalDraft | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: Record<string, unknown>) => {
+      const response = await apiRequest("PATCH", `/api/patients/${patient._id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      setDraft(null);
+      setErrors({});
+      toast({ title: "Saved", description: "Medical history updated" });
+    },
+    onError: (error) => {
+      const fields = error instanceof ApiError ? error.fields : undefined;
+      if (fields) {
+        setErrors(fields);
+        return;
+      }
+      toast({ title: "Error", description: "Failed to save medical history", variant: "destructive" });
+    },
+  });
+
+  // Errors on a single entry ("allergies.0.substance") are shown under its list
+  const errorFor = (field: string) => {
+    const message = Object.entries(errors).find(([key]) => key === field || key.startsWith(`${field}.`))?.[1];
+    return message ? <p className="text-sm text-red-500">{message}</p> : null;
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const current = medicalDraft(patient);
+    const updates: Record<string, unknown> = {};
+    if (JSON.stringify(draft.allergies) !== JSON.stringify(current.allergies)) updates.allergies = draft.allergies;
+    if (JSON.stringify(draft.medications) !== JSON.stringify(current.medications)) updates.medications = draft.medications;
+    const { conditions, surgeries, familyHistory } = draft;
+    if (JSON.stringify({ conditions, surgeries, familyHistory }) !==
+        JSON.stringify({ conditions: current.conditions, surgeries: current.surgeries, familyHistory: current.familyHistory })) {
+      updates.medicalHistory = { conditions, surgeries, familyHistory };
+    }
+    if (Object.keys(updates).length === 0) {
+      setDraft(null);
+      return;
+    }
+    saveMutation.mutate(updates);
+  };
+
+  const view = medicalDraft(patient);
+
+  return (
+    <Card className="shadow-lg border-0 md:col-span-2">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+        <CardTitle className="flex items-center text-lg">
+          <Heart className="h-5 w-5 mr-2 text-blue-600" />
+          Medical History
+        </CardTitle>
+        {canEdit && !draft && (
+          <Button variant="ghost" size="sm" onClick={() => { setErrors({}); setDraft(medicalDraft(patient)); }} data-testid="button-edit-medical-history">
+            <Pencil className="h-4 w-4 mr-1" />
+            Edit
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {draft ? (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label>Allergies</Label>
+              <AllergyEntries value={draft.allergies} onChange={(allergies) => setDraft({ ...draft, allergies })} />
+              {errorFor("allergies")}
+            </div>
+            <div className="space-y-2">
+              <Label>Medications</Label>
+              <MedicationEntries value={draft.medications} onChange={(medications) => setDraft({ ...draft, medications })} />
+              {errorFor("medications")}
+            </div>
+            <div className="space-y-2">
+              <Label>Conditions</Label>
+              <ConditionEntries value={draft.conditions} onChange={(conditions) => setDraft({ ...draft, conditions })} />
+              {errorFor("medicalHistory.conditions")}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="surgeries">Surgeries</Label>
+              <Textarea id="surgeries" value={draft.surgeries} onChange={(e) => setDraft({ ...draft, surgeries: e.target.value })} />
+              {errorFor("medicalHistory.surgeries")}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="familyHistory">Family history</Label>
+              <Textarea id="familyHistory" value={draft.familyHistory} onChange={(e) => setDraft({ ...draft, familyHistory: e.target.value })} />
+              {errorFor("medicalHistory.familyHistory")}
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={() => { setDraft(null); setErrors({}); }} disabled={saveMutation.isPending}>
+                Cancel
+              </Button>
+              <Button className="bg-blue-600 hover:bg-blue-700" onClick={save} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <dl className="grid md:grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500 mb-1">Allergies</dt>
+              <dd>
+                <EntrySummary
+                  entries={view.allergies}
+                  details={(allergy) => [allergy.substance, allergy.reaction, allergy.severity]}
+                />
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500 mb-1">Medications</dt>
+              <dd>
+                <EntrySummary
+                  entries={view.medications}
+                  details={(medication) => [medication.name, medication.dose, medication.route, medication.frequency]}
+                />
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500 mb-1">Conditions</dt>
+              <dd>
+                <EntrySummary
+                  entries={view.conditions}
+                  details={(condition) => [condition.name, condition.onset && `since ${condition.onset}`, condition.status]}
+                />
+              </dd>
+            </div>
+            <div className="space-y-3">
+              <div>
+                <dt className="text-gray-500 mb-1">Surgeries</dt>
+                <dd className="text-gray-900 whitespace-pre-wrap">{view.surgeries || "—"}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500 mb-1">Family history</dt>
+                <dd className="text-gray-900 whitespace-pre-wrap">{view.familyHistory || "—"}</dd>
+              </div>
+            </div>
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PatientDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Billing staff can read the record but not edit it or see clinical details
+  const isClinical = user?.role !== "billing";
+
+  const dischargeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/patients/${id}/discharge`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/patients"] });
+      toast({ title: "Discharged", description: "The patient's bed has been released" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to discharge patient", variant: "destructive" });
+    },
+  });
+
+  const { data: patient, isLoading, isError } = useQuery<PatientRecord>({
+    queryKey: ["/api/patients", id],
+  });
+  const { data: history } = useQuery<PatientChange[]>({
+    queryKey: ["/api/patients", id, "history"],
+  });
+  const { data: activities } = useQuery<Activity[]>({
+    queryKey: ["/api/patients", id, "activities"],
+  });
+  const { data: documents } = useQuery<{ documents: PatientDocument[] }>({
+    queryKey: ["/api/patients", id, "documents"],
+    enabled: isClinical,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (isError || !patient) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+        <Navigation />
+        <div className="max-w-3xl mx-auto px-4 py-16 text-center">
+          <p className="text-gray-600 mb-4">Patient not found</p>
+          <Link href="/patients">
+            <Button variant="outline">Back to Patients</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/patients">
+          <Button variant="ghost" size="sm" className="mb-4">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Patients
+          </Button>
+        </Link>
+
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">{patient.firstName} {patient.lastName}</h1>
+          {patient.isProvisional && <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">Unidentified</Badge>}
+          {patient.isCompleted
+            ? <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Completed</Badge>
+            : <Badge variant="outline">Step {patient.onboardingStep} of 3</Badge>}
+          {patient.isEmergency && (
+            <Badge variant="destructive">
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              {patient.emergencyType || "Emergency"}
+            </Badge>
+          )}
+          {patient.admissionLocation && <Badge variant="secondary">{patient.admissionLocation}</Badge>}
+          {patient.dischargedAt && <Badge variant="outline">Discharged {new Date(patient.dischargedAt).toLocaleDateString()}</Badge>}
+          {isClinical && patient.bedId && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto"
+              disabled={dischargeMutation.isPending}
+              onClick={() => window.confirm(`Discharge ${patient.firstName} ${patient.lastName} and release their bed?`) && dischargeMutation.mutate()}
+            >
+              <LogOut className="h-4 w-4 mr-2" />
+              Discharge
+            </Button>
+          )}
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 grid md:grid-cols-2 gap-6 content-start">
+            <EditableSection
+              title="Demographics"
+              icon={User}
+              patient={patient}
+              canEdit={isClinical}
+              fields={[
+                { field: "firstName", label: "First name" },
+                { field: "lastName", label: "Last name" },
+                { field: "dateOfBirth", label: "Date of birth", type: "date" },
+                { field: "phone", label: "Phone", type: "tel" },
+                { field: "address", label: "Address", multiline: true },
+              ]}
+            />
+            <EditableSection
+              title="Emergency Contact"
+              icon={Phone}
+              patient={patient}
+              canEdit={isClinical}
+              fields={[
+                { field: "emergencyContactName", label: "Name" },
+                { field: "emergencyContactRelationship", label: "Relationship" },
+                { field: "emergencyContactPhone", label: "Phone", type: "tel" },
+              ]}
+            />
+            <EditableSection
+              title="Insurance"
+              icon={Shield}
+              patient={patient}
+              canEdit={isClinical}
+              fields={[
+                { field: "insuranceProvider", label: "Provider" },
+                { field: "insurancePolicyNumber", label: "Policy number" },
+                { field: "insuranceGroupNumber", label: "Group number" },
+              ]}
+            />
+            {isClinical && <VitalSignsPanel patientId={patient._id} className="md:col-span-2" />}
+            {isClinical && (
+              <MedicalSection patient={patient} canEdit={isClinical} />
+            )}
+            {isClinical && <InteractionWarnings patientId={patient._id} audience="staff" className="md:col-span-2" />}
+            {isClinical && (
+              <Card className="shadow-lg border-0 md:col-span-2">
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center text-lg">
+                    <FileText className="h-5 w-5 mr-2 text-blue-600" />
+                    Documents
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {documents?.documents.length ? (
+                    <ul className="divide-y">
+                      {documents.documents.map((document) => (
+                        <li key={document.id} className="flex items-center justify-between py-2 text-sm">
+                          <div>
+                            <p className="font-medium text-gray-900">{document.fileName}</p>
+                            <p className="text-gray-500">
+                              {document.type.replace(/_/g, " ")} · {new Date(document.uploadedAt).toLocaleString()}
+                            </p>
+                          </div>
+                          <Badge variant={document.status === "verified" ? "default" : "secondary"}>{document.status}</Badge>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500">No documents uploaded</p>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            <Card className="shadow-lg border-0">
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center text-lg">
+                  <History className="h-5 w-5 mr-2 text-blue-600" />
+                  Change History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {history?.length ? (
+                  <ol className="space-y-4">
+                    {history.map((entry) => (
+                      <li key={entry._id} className="text-sm" data-testid={`history-${entry._id}`}>
+                        <p className="text-gray-500">
+                          {entry.changedByName || "System"} · {new Date(entry.createdAt).toLocaleString()}
+                        </p>
+                        <ul className="mt-1 space-y-1">
+                          {entry.changes.map((change) => (
+                            <li key={change.field}>
+                              <span className="font-medium text-gray-900">{fieldLabels[change.field] || change.field}: </span>
+                              <span className="text-red-700 line-through">{formatValue(change.oldValue)}</span>
+                              {" → "}
+                              <span className="text-green-700">{formatValue(change.newValue)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </li>
+                    ))}
+                  </ol>
+                ) : (
+                  <p className="text-sm text-gray-500">No changes since registration</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-lg border-0">
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center text-lg">
+                  <Clock className="h-5 w-5 mr-2 text-blue-600" />
+                  Activity
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {activities?.length ? (
+                  <ol className="relative border-l border-blue-100 ml-2 space-y-4">
+                    {activities.map((activity) => (
+                      <li key={activity._id} className="ml-4 text-sm">
+                        <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-blue-500"></div>
+                        <p className="text-gray-900">{activity.description}</p>
+                        <p className="text-gray-500">{new Date(activity.createdAt).toLocaleString()}</p>
+                      </li>
+                    ))}
+                  </ol>
+                ) : (
+                  <p className="text-sm text-gray-500">No activity yet</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
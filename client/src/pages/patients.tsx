@@ -0,0 +1,485 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import Navigation from "@/components/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { apiRequest } from "@/lib/queryClient";
+import { useDebounced } from "@/hooks/use-debounced";
+import { Search, Users, AlertTriangle, Phone, Shield, Heart, ArrowRight } from "lucide-react";
+import type { Allergy, Medication } from "@shared/schema";
+
+interface PatientRecord {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  phone: string;
+  address: string;
+  emergencyContactName?: string;
+  emergencyContactRelationship?: string;
+  emergencyContactPhone?: string;
+  insuranceProvider?: string;
+  insurancePolicyNumber?: string;
+  insuranceStatus?: string;
+  allergies?: Allergy[];
+  medications?: Medication[];
+  onboardingStep: number;
+  isCompleted: boolean;
+  isEmergency: boolean;
+  isProvisional?: boolean;
+  admissionLocation?: string;
+  emergencyType?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface PatientPage {
+  patients: PatientRecord[];
+  nextCursor: string | null;
+  limit: number;
+}
+
+interface PatientFilters {
+  search: string;
+  status: "all" | "in_progress" | "completed";
+  isEmergency: "all" | "true" | "false";
+  insuranceStatus: "all" | "pending" | "verified" | "failed";
+  sort: "createdAt" | "updatedAt" | "lastName";
+}
+
+const defaultFilters: PatientFilters = {
+  search: "",
+  status: "all",
+  isEmergency: "all",
+  insuranceStatus: "all",
+  sort: "createdAt",
+};
+
+const PAGE_SIZE = 20;
+
+function buildQuery(filters: PatientFilters, cursor?: string, limit = PAGE_SIZE) {
+  const params = new URLSearchParams({ sort: filters.sort, limit: String(limit) });
+  if (filters.search.trim()) params.set("search", filters.search.trim());
+  if (filters.status !== "all") params.set("isCompleted", String(filters.status === "completed"));
+  if (filters.isEmergency !== "all") params.set("isEmergency", filters.isEmergency);
+  if (filters.insuranceStatus !== "all") params.set("insuranceStatus", filters.insuranceStatus);
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
+
+async function fetchPatients(query: string): Promise<PatientPage> {
+  const response = await apiRequest("GET", `/api/patients?${query}`);
+  return response.json();
+}
+
+// Where a registrar picks up an onboarding that was left part way
+function resumePath(patient: PatientRecord) {
+  return patient.isCompleted
+    ? `/onboarding/confirmation?patientId=${patient._id}&completed=true`
+    : `/onboarding/medical?patientId=${patient._id}`;
+}
+
+function StatusBadge({ patient }: { patient: PatientRecord }) {
+  if (patient.isProvisional) {
+    return <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">Unidentified</Badge>;
+  }
+  if (patient.isCompleted) {
+    return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Completed</Badge>;
+  }
+  return <Badge variant="outline">Step {patient.onboardingStep} of 3</Badge>;
+}
+
+function InsuranceBadge({ status }: { status?: string }) {
+  if (status === "verified") {
+    return <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100">Verified</Badge>;
+  }
+  if (status === "failed") {
+    return <Badge variant="destructive">Failed</Badge>;
+  }
+  return <Badge variant="secondary">Pending</Badge>;
+}
+
+function DetailRow({ label, value }: { label: string; value?: string }) {
+  return (
+    <div className="flex justify-between gap-4 text-sm py-1">
+      <span className="text-gray-500">{label}</span>
+      <span className="text-gray-900 text-right">{value || "—"}</span>
+    </div>
+  );
+}
+
+/**
+ * Side drawer with one patient's record and a way back into their onboarding
+ */
+function PatientDrawer({ patientId, onClose }: { patientId: string | null; onClose: () => void }) {
+  const [, setLocation] = useLocation();
+  const { data: patient } = useQuery<PatientRecord>({
+    queryKey: ["/api/patients", patientId],
+    enabled: !!patientId,
+  });
+
+  return (
+    <Sheet open={!!patientId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        {patient && (
+          <>
+            <SheetHeader>
+              <SheetTitle>{patient.firstName} {patient.lastName}</SheetTitle>
+              <SheetDescription>
+                Registered {new Date(patient.createdAt).toLocaleString()}
+              </SheetDescription>
+              <div className="flex flex-wrap gap-2 pt-1">
+                <StatusBadge patient={patient} />
+                {patient.isEmergency && (
+                  <Badge variant="destructive">{patient.emergencyType || "Emergency"}</Badge>
+                )}
+              </div>
+            </SheetHeader>
+
+            <div className="space-y-5 mt-6">
+              <section>
+                <h3 className="flex items-center font-medium text-gray-900 mb-1">
+                  <Phone className="h-4 w-4 mr-2 text-blue-600" />
+                  Contact
+                </h3>
+                <DetailRow label="Date of birth" value={patient.dateOfBirth} />
+                <DetailRow label="Phone" value={patient.phone} />
+                <DetailRow label="Address" value={patient.address} />
+                <DetailRow
+                  label="Emergency contact"
+                  value={patient.emergencyContactName &&
+                    `${patient.emergencyContactName}${patient.emergencyContactRelationship ? ` (${patient.emergencyContactRelationship})` : ""}`}
+                />
+                <DetailRow label="Emergency phone" value={patient.emergencyContactPhone} />
+              </section>
+
+              <section>
+                <h3 className="flex items-center font-medium text-gray-900 mb-1">
+                  <Shield className="h-4 w-4 mr-2 text-blue-600" />
+                  Insurance
+                </h3>
+                <DetailRow label="Provider" value={patient.insuranceProvider} />
+                <DetailRow label="Policy number" value={patient.insurancePolicyNumber} />
+                <div className="flex justify-between text-sm py-1">
+                  <span className="text-gray-500">Status</span>
+                  <InsuranceBadge status={patient.insuranceStatus} />
+                </div>
+              </section>
+
+              {/* Billing staff get these fields redacted by the server */}
+              {("allergies" in patient || "medications" in patient) && (
+                <section>
+                  <h3 className="flex items-center font-medium text-gray-900 mb-1">
+                    <Heart className="h-4 w-4 mr-2 text-blue-600" />
+                    Medical
+                  </h3>
+                  <DetailRow label="Allergies" value={patient.allergies?.map(allergy => allergy.substance).join(", ")} />
+                  <DetailRow label="Medications" value={patient.medications?.map(medication => medication.name).join(", ")} />
+                </section>
+              )}
+
+              {patient.isEmergency && (
+                <section>
+                  <h3 className="flex items-center font-medium text-gray-900 mb-1">
+                    <AlertTriangle className="h-4 w-4 mr-2 text-red-600" />
+                    Emergency
+                  </h3>
+                  <DetailRow label="Type" value={patient.emergencyType} />
+                  <DetailRow label="Location" value={patient.admissionLocation} />
+                </section>
+              )}
+
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => setLocation(`/patients/${patient._id}`)}
+                data-testid="button-open-record"
+              >
+                Open Full Record
+              </Button>
+              <Button
+                className="w-full bg-blue-600 hover:bg-blue-700"
+                onClick={() => setLocation(resumePath(patient))}
+                data-testid="button-resume-onboarding"
+              >
+                {patient.isCompleted ? "View Confirmation" : "Resume Onboarding"}
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </Button>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+/**
+ * Quick find palette (Ctrl/Cmd+K) searching the registry by name, phone or policy number
+ */
+function PatientFinder({ onSelect }: { onSelect: (patientId: string) => void }) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const debouncedSearch = useDebounced(search);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const query = buildQuery({ ...defaultFilters, search: debouncedSearch }, undefined, 8);
+  const { data } = useQuery<PatientPage>({
+    queryKey: ["/api/patients", "finder", query],
+    queryFn: () => fetchPatients(query),
+    enabled: open && debouncedSearch.trim().length > 0,
+  });
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setOpen(true)} data-testid="button-quick-find">
+        <Search className="h-4 w-4 mr-2" />
+        Quick find
+        <kbd className="ml-3 text-xs text-gray-400">Ctrl K</kbd>
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          {/* Matching is done by the server, so cmdk's own filtering is turned off */}
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="Name, phone or policy number..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>{search.trim() ? "No patients found." : "Start typing to search."}</CommandEmpty>
+              {data && data.patients.length > 0 && (
+                <CommandGroup heading="Patients">
+                  {data.patients.map((patient) => (
+                    <CommandItem
+                      key={patient._id}
+                      value={patient._id}
+                      onSelect={() => {
+                        setOpen(false);
+                        onSelect(patient._id);
+                      }}
+                    >
+                      <span className="flex-1">{patient.firstName} {patient.lastName}</span>
+                      <span className="text-xs text-gray-500">{patient.phone}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+export default function Patients() {
+  const [filters, setFilters] = useState<PatientFilters>(defaultFilters);
+  // Cursors of the pages before the current one, for going back
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const debouncedSearch = useDebounced(filters.search);
+
+  const cursor = cursors[cursors.length - 1];
+  const query = buildQuery({ ...filters, search: debouncedSearch }, cursor);
+  const { data, isLoading, isError } = useQuery<PatientPage>({
+    queryKey: ["/api/patients", "list", query],
+    queryFn: () => fetchPatients(query),
+    placeholderData: (previous) => previous,
+  });
+
+  // Any change to the filters starts again from the first page
+  const updateFilters = (changes: Partial<PatientFilters>) => {
+    setFilters((current) => ({ ...current, ...changes }));
+    setCursors([undefined]);
+  };
+  useEffect(() => setCursors([undefined]), [debouncedSearch]);
+
+  const page = cursors.length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+              <Users className="h-6 w-6 mr-2 text-blue-600" />
+              Patient Registry
+            </h1>
+            <p className="text-gray-600 text-sm">Find patients and resume onboardings that are still in progress</p>
+          </div>
+          <PatientFinder onSelect={setSelectedId} />
+        </div>
+
+        <Card className="shadow-lg border-0">
+          <CardHeader className="pb-4">
+            <CardTitle className="sr-only">Patients</CardTitle>
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+              <div className="relative md:col-span-2">
+                <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                <Input
+                  className="pl-9"
+                  placeholder="Search name, phone or policy number"
+                  value={filters.search}
+                  onChange={(e) => setFilters((current) => ({ ...current, search: e.target.value }))}
+                  data-testid="input-patient-search"
+                />
+              </div>
+              <Select value={filters.status} onValueChange={(status) => updateFilters({ status: status as PatientFilters["status"] })}>
+                <SelectTrigger data-testid="select-status"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="in_progress">In progress</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={filters.isEmergency} onValueChange={(isEmergency) => updateFilters({ isEmergency: isEmergency as PatientFilters["isEmergency"] })}>
+                <SelectTrigger data-testid="select-emergency"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All admissions</SelectItem>
+                  <SelectItem value="true">Emergency only</SelectItem>
+                  <SelectItem value="false">Scheduled only</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={filters.insuranceStatus} onValueChange={(insuranceStatus) => updateFilters({ insuranceStatus: insuranceStatus as PatientFilters["insuranceStatus"] })}>
+                <SelectTrigger data-testid="select-insurance"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any insurance</SelectItem>
+                  <SelectItem value="pending">Insurance pending</SelectItem>
+                  <SelectItem value="verified">Insurance verified</SelectItem>
+                  <SelectItem value="failed">Insurance failed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>
+                    <button className="font-medium hover:text-gray-900" onClick={() => updateFilters({ sort: "lastName" })}>
+                      Name{filters.sort === "lastName" && " ↑"}
+                    </button>
+                  </TableHead>
+                  <TableHead className="hidden md:table-cell">Phone</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="hidden md:table-cell">Insurance</TableHead>
+                  <TableHead className="hidden lg:table-cell">
+                    <button className="font-medium hover:text-gray-900" onClick={() => updateFilters({ sort: "createdAt" })}>
+                      Registered{filters.sort === "createdAt" && " ↓"}
+                    </button>
+                  </TableHead>
+                  <TableHead className="hidden lg:table-cell">
+                    <button className="font-medium hover:text-gray-900" onClick={() => updateFilters({ sort: "updatedAt" })}>
+                      Last updated{filters.sort === "updatedAt" && " ↓"}
+                    </button>
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-gray-500 py-8">Loading patients...</TableCell>
+                  </TableRow>
+                )}
+                {isError && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-red-600 py-8">Failed to load patients</TableCell>
+                  </TableRow>
+                )}
+                {data && data.patients.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-gray-500 py-8">No patients match these filters</TableCell>
+                  </TableRow>
+                )}
+                {data?.patients.map((patient) => (
+                  <TableRow
+                    key={patient._id}
+                    className="cursor-pointer"
+                    onClick={() => setSelectedId(patient._id)}
+                    data-testid={`row-patient-${patient._id}`}
+                  >
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {patient.isEmergency && <AlertTriangle className="h-4 w-4 text-red-600" />}
+                        {patient.lastName}, {patient.firstName}
+                      </div>
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">{patient.phone}</TableCell>
+                    <TableCell><StatusBadge patient={patient} /></TableCell>
+                    <TableCell className="hidden md:table-cell"><InsuranceBadge status={patient.insuranceStatus} /></TableCell>
+                    <TableCell className="hidden lg:table-cell text-gray-600">{new Date(patient.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="hidden lg:table-cell text-gray-600">{new Date(patient.updatedAt).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <Pagination className="mt-4">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    aria-disabled={page === 1}
+                    className={page === 1 ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setCursors((current) => (current.length > 1 ? current.slice(0, -1) : current));
+                    }}
+                  />
+                </PaginationItem>
+                <PaginationItem>
+                  <span className="px-4 text-sm text-gray-600">Page {page}</span>
+                </PaginationItem>
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    aria-disabled={!data?.nextCursor}
+                    className={!data?.nextCursor ? "pointer-events-none opacity-50" : "cursor-pointer"}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      if (data?.nextCursor) {
+                        setCursors((current) => [...current, data.nextCursor!]);
+                      }
+                    }}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          </CardContent>
+        </Card>
+      </div>
+
+      <PatientDrawer patientId={selectedId} onClose={() => setSelectedId(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,486 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import Navigation from "@/components/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { ArrowRight, FlaskConical, Pencil, Plus, Route as RouteIcon, Trash2 } from "lucide-react";
+import { emergencyTypeValues, type EmergencyType, type RoutingRuleInput } from "@shared/routing";
+
+interface EmergencyUnit {
+  id: string;
+  name: string;
+}
+
+interface RoutingRule extends RoutingRuleInput {
+  _id: string;
+  updatedByName?: string;
+  updatedAt: string;
+}
+
+interface RoutingDecision {
+  unit: EmergencyUnit;
+  rule?: { id: string; name: string };
+  candidates: EmergencyUnit[];
+}
+
+// Numbers are kept as typed so clearing a bound leaves it empty, not 0
+interface RuleDraft {
+  id?: string;
+  name: string;
+  priority: string;
+  emergencyTypes: EmergencyType[];
+  minAgeYears: string;
+  maxAgeYears: string;
+  maxAcuity: string;
+  unitId: string;
+  fallbackUnitIds: string[];
+  enabled: boolean;
+}
+
+const ANY = "any";
+
+const humanize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, " ");
+
+const optionalNumber = (text: string) => (text.trim() ? Number(text) : undefined);
+
+function toDraft(rule: RoutingRule): RuleDraft {
+  return {
+    id: rule._id,
+    name: rule.name,
+    priority: String(rule.priority),
+    emergencyTypes: rule.emergencyTypes,
+    minAgeYears: rule.minAgeYears?.toString() ?? "",
+    maxAgeYears: rule.maxAgeYears?.toString() ?? "",
+    maxAcuity: rule.maxAcuity?.toString() ?? ANY,
+    unitId: rule.unitId,
+    fallbackUnitIds: rule.fallbackUnitIds,
+    enabled: rule.enabled,
+  };
+}
+
+function toRule(draft: RuleDraft): RoutingRuleInput {
+  return {
+    name: draft.name,
+    priority: Number(draft.priority),
+    emergencyTypes: draft.emergencyTypes,
+    minAgeYears: optionalNumber(draft.minAgeYears),
+    maxAgeYears: optionalNumber(draft.maxAgeYears),
+    maxAcuity: draft.maxAcuity === ANY ? undefined : Number(draft.maxAcuity),
+    unitId: draft.unitId,
+    fallbackUnitIds: draft.fallbackUnitIds,
+    enabled: draft.enabled,
+  };
+}
+
+function describeConditions(rule: RoutingRuleInput) {
+  const parts = [
+    rule.emergencyTypes.length ? rule.emergencyTypes.map(humanize).join(", ") : "Any emergency",
+  ];
+  if (rule.minAgeYears !== undefined && rule.maxAgeYears !== undefined) parts.push(`aged ${rule.minAgeYears}-${rule.maxAgeYears - 1}`);
+  else if (rule.minAgeYears !== undefined) parts.push(`aged ${rule.minAgeYears}+`);
+  else if (rule.maxAgeYears !== undefined) parts.push(`under ${rule.maxAgeYears}`);
+  if (rule.maxAcuity !== undefined) parts.push(rule.maxAcuity === 1 ? "ESI 1" : `ESI 1-${rule.maxAcuity}`);
+  return parts.join(" · ");
+}
+
+function RuleEditor({ draft, units, onChange, onCancel }: {
+  draft: RuleDraft;
+  units: EmergencyUnit[];
+  onChange: (draft: RuleDraft) => void;
+  onCancel: () => void;
+}) {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const rule = toRule(draft);
+      const response = draft.id
+        ? await apiRequest("PUT", `/api/routing-rules/${draft.id}`, rule)
+        : await apiRequest("POST", "/api/routing-rules", rule);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/routing-rules"] });
+      toast({ title: "Saved", description: `Routing rule "${draft.name}" saved` });
+      onCancel();
+    },
+    onError: (error) => {
+      const fields = error instanceof ApiError ? error.fields : undefined;
+      if (fields) {
+        setErrors(fields);
+        return;
+      }
+      toast({ title: "Error", description: "Failed to save routing rule", variant: "destructive" });
+    },
+  });
+
+  const errorFor = (field: string) => {
+    const message = Object.entries(errors).find(([key]) => key === field || key.startsWith(`${field}.`))?.[1];
+    return message ? <p className="text-sm text-red-500">{message}</p> : null;
+  };
+
+  const toggleType = (type: EmergencyType) => {
+    onChange({
+      ...draft,
+      emergencyTypes: draft.emergencyTypes.includes(type)
+        ? draft.emergencyTypes.filter(t => t !== type)
+        : [...draft.emergencyTypes, type],
+    });
+  };
+
+  // Fallbacks are tried in the order they were picked
+  const toggleFallback = (unitId: string) => {
+    onChange({
+      ...draft,
+      fallbackUnitIds: draft.fallbackUnitIds.includes(unitId)
+        ? draft.fallbackUnitIds.filter(id => id !== unitId)
+        : [...draft.fallbackUnitIds, unitId],
+    });
+  };
+
+  return (
+    <Card className="shadow-lg border-0 mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">{draft.id ? `Edit "${draft.name}"` : "New routing rule"}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-1 md:col-span-3">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input id="rule-name" value={draft.name} onChange={(e) => onChange({ ...draft, name: e.target.value })} />
+            {errorFor("name")}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-priority">Priority</Label>
+            <Input id="rule-priority" type="number" min={0} value={draft.priority} onChange={(e) => onChange({ ...draft, priority: e.target.value })} />
+            {errorFor("priority")}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Emergency types <span className="text-gray-500 font-normal">(none selected matches every type)</span></Label>
+          <div className="flex flex-wrap gap-2">
+            {emergencyTypeValues.map((type) => (
+              <Button
+                key={type}
+                type="button"
+                size="sm"
+                variant={draft.emergencyTypes.includes(type) ? "default" : "outline"}
+                onClick={() => toggleType(type)}
+              >
+                {humanize(type)}
+              </Button>
+            ))}
+          </div>
+          {errorFor("emergencyTypes")}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="rule-min-age">From age (years)</Label>
+            <Input id="rule-min-age" type="number" min={0} value={draft.minAgeYears} onChange={(e) => onChange({ ...draft, minAgeYears: e.target.value })} />
+            {errorFor("minAgeYears")}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-max-age">Under age (years)</Label>
+            <Input id="rule-max-age" type="number" min={1} value={draft.maxAgeYears} onChange={(e) => onChange({ ...draft, maxAgeYears: e.target.value })} />
+            {errorFor("maxAgeYears")}
+          </div>
+          <div className="space-y-1">
+            <Label>Acuity</Label>
+            <Select value={draft.maxAcuity} onValueChange={(maxAcuity) => onChange({ ...draft, maxAcuity })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any acuity</SelectItem>
+                {[1, 2, 3, 4].map((level) => (
+                  <SelectItem key={level} value={String(level)}>ESI {level === 1 ? "1 only" : `${level} or more urgent`}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errorFor("maxAcuity")}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label>Destination</Label>
+            <Select
+              value={draft.unitId}
+              onValueChange={(unitId) => onChange({ ...draft, unitId, fallbackUnitIds: draft.fallbackUnitIds.filter(id => id !== unitId) })}
+            >
+              <SelectTrigger><SelectValue placeholder="Select a unit" /></SelectTrigger>
+              <SelectContent>
+                {units.map((unit) => <SelectItem key={unit.id} value={unit.id}>{unit.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {errorFor("unitId")}
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label>Fallbacks, in order</Label>
+            <div className="flex flex-wrap gap-2">
+              {units.filter(unit => unit.id !== draft.unitId).map((unit) => {
+                const position = draft.fallbackUnitIds.indexOf(unit.id);
+                return (
+                  <Button
+                    key={unit.id}
+                    type="button"
+                    size="sm"
+                    variant={position >= 0 ? "default" : "outline"}
+                    onClick={() => toggleFallback(unit.id)}
+                  >
+                    {position >= 0 && <span className="mr-1">{position + 1}.</span>}
+                    {unit.name}
+                  </Button>
+                );
+              })}
+            </div>
+            {errorFor("fallbackUnitIds")}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between pt-2">
+          <div className="flex items-center space-x-2">
+            <Switch id="rule-enabled" checked={draft.enabled} onCheckedChange={(enabled) => onChange({ ...draft, enabled })} />
+            <Label htmlFor="rule-enabled">Enabled</Label>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save rule"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RoutingTester() {
+  const [emergencyType, setEmergencyType] = useState<EmergencyType>("general");
+  const [ageYears, setAgeYears] = useState("");
+  const [acuity, setAcuity] = useState(ANY);
+  const { toast } = useToast();
+
+  const evaluateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/routing-rules/evaluate", {
+        emergencyType,
+        ageYears: optionalNumber(ageYears),
+        acuity: acuity === ANY ? undefined : Number(acuity),
+      });
+      return response.json() as Promise<RoutingDecision>;
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to evaluate routing rules", variant: "destructive" });
+    },
+  });
+  const decision = evaluateMutation.data;
+
+  return (
+    <Card className="shadow-lg border-0">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-lg">
+          <FlaskConical className="h-5 w-5 mr-2 text-blue-600" />
+          Test routing
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-1">
+            <Label>Emergency type</Label>
+            <Select value={emergencyType} onValueChange={(value) => setEmergencyType(value as EmergencyType)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {emergencyTypeValues.map((type) => <SelectItem key={type} value={type}>{humanize(type)}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="test-age">Age (years)</Label>
+            <Input id="test-age" type="number" min={0} placeholder="Unknown" value={ageYears} onChange={(e) => setAgeYears(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Acuity</Label>
+            <Select value={acuity} onValueChange={setAcuity}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Unknown</SelectItem>
+                {[1, 2, 3, 4, 5].map((level) => <SelectItem key={level} value={String(level)}>ESI {level}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => evaluateMutation.mutate()} disabled={evaluateMutation.isPending}>
+            Evaluate
+          </Button>
+        </div>
+
+        {decision && (
+          <div className="rounded-lg bg-blue-50 border border-blue-200 p-4 text-sm">
+            <p className="font-medium text-gray-900">
+              {decision.unit.name}
+              <span className="font-normal text-gray-600">
+                {decision.rule ? ` - rule "${decision.rule.name}"` : " - no rule matched, default unit"}
+              </span>
+            </p>
+            {decision.candidates.length > 1 && (
+              <p className="text-gray-600 mt-1 flex flex-wrap items-center gap-1">
+                Then
+                {decision.candidates.slice(1).map((unit, index) => (
+                  <span key={unit.id} className="flex items-center">
+                    {index > 0 && <ArrowRight className="h-3 w-3 mx-1" />}
+                    {unit.name}
+                  </span>
+                ))}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function RoutingRules() {
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: rules, isLoading } = useQuery<RoutingRule[]>({ queryKey: ["/api/routing-rules"] });
+  const { data: units = [] } = useQuery<EmergencyUnit[]>({ queryKey: ["/api/emergency-units"] });
+  const unitName = (id: string) => units.find(unit => unit.id === id)?.name ?? id;
+
+  const updateMutation = useMutation({
+    mutationFn: async (rule: RoutingRule) => {
+      await apiRequest("PUT", `/api/routing-rules/${rule._id}`, toRule(toDraft(rule)));
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/routing-rules"] }),
+    onError: () => toast({ title: "Error", description: "Failed to update routing rule", variant: "destructive" }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (rule: RoutingRule) => {
+      await apiRequest("DELETE", `/api/routing-rules/${rule._id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/routing-rules"] }),
+    onError: () => toast({ title: "Error", description: "Failed to delete routing rule", variant: "destructive" }),
+  });
+
+  const newRule = () => {
+    const lastPriority = rules?.length ? rules[rules.length - 1].priority : 0;
+    setDraft({
+      name: "",
+      priority: String(lastPriority + 10),
+      emergencyTypes: [],
+      minAgeYears: "",
+      maxAgeYears: "",
+      maxAcuity: ANY,
+      unitId: "",
+      fallbackUnitIds: [],
+      enabled: true,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <Navigation />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+              <RouteIcon className="h-6 w-6 mr-2 text-blue-600" />
+              Emergency Routing Rules
+            </h1>
+            <p className="text-gray-600 text-sm">
+              The first enabled rule that matches sends the patient to its unit. Anything unmatched goes to the Emergency Room.
+            </p>
+          </div>
+          {!draft && (
+            <Button onClick={newRule}>
+              <Plus className="h-4 w-4 mr-2" />
+              New rule
+            </Button>
+          )}
+        </div>
+
+        {draft && <RuleEditor key={draft.id ?? "new"} draft={draft} units={units} onChange={setDraft} onCancel={() => setDraft(null)} />}
+
+        <Card className="shadow-lg border-0 mb-6">
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-20">Priority</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead>Destination</TableHead>
+                  <TableHead className="w-20">Enabled</TableHead>
+                  <TableHead className="w-24"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow><TableCell colSpan={6} className="text-center text-gray-500">Loading...</TableCell></TableRow>
+                ) : !rules?.length ? (
+                  <TableRow><TableCell colSpan={6} className="text-center text-gray-500">No rules - every emergency goes to the Emergency Room</TableCell></TableRow>
+                ) : rules.map((rule) => (
+                  <TableRow key={rule._id} className={rule.enabled ? "" : "opacity-60"}>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell>
+                      <p className="font-medium text-gray-900">{rule.name}</p>
+                      {rule.updatedByName && <p className="text-xs text-gray-500">Last edited by {rule.updatedByName}</p>}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-700">{describeConditions(rule)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-1">
+                        <Badge>{unitName(rule.unitId)}</Badge>
+                        {rule.fallbackUnitIds.map((id) => (
+                          <Badge key={id} variant="outline">{unitName(id)}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.enabled}
+                        onCheckedChange={(enabled) => updateMutation.mutate({ ...rule, enabled })}
+                        aria-label={`Enable ${rule.name}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setDraft(toDraft(rule))} aria-label={`Edit ${rule.name}`}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-red-600"
+                          onClick={() => window.confirm(`Delete the rule "${rule.name}"?`) && deleteMutation.mutate(rule)}
+                          aria-label={`Delete ${rule.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <RoutingTester />
+      </div>
+    </div>
+  );
+}
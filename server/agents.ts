@@ -1,13 +1,4 @@
-// Import dotenv to load environment variables from a .env file during development
-import dotenv from 'dotenv';
-
-dotenv.config(); // Load environment variables
-
-import OpenAI from 'openai';
-
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY
-});
+import { llm } from "./llm";
 
 export interface VerificationResult {
   success: boolean;
@@ -17,8 +8,24 @@ export interface VerificationResult {
   verificationStatus: 'verified' | 'pending' | 'failed';
   flags: string[];
   recommendations: string[];
+  medicalHistory?: MedicalHistoryExtraction;
+}
+
+export interface ExtractedField {
+  items: string[];
+  confidence: number;
+}
+
+export interface MedicalHistoryExtraction {
+  allergies: ExtractedField;
+  medications: ExtractedField;
+  conditions: ExtractedField;
+  surgeries: ExtractedField;
+  familyHistory: ExtractedField;
 }
 
+export const medicalHistoryFields = ["allergies", "medications", "conditions", "surgeries", "familyHistory"] as const;
+
 export interface IdentityVerification {
   documentType: string;
   documentNumber: string;
@@ -46,18 +53,12 @@ export interface ReferralData {
  */
 export async function identityVerifier(documentText: string, documentType: string): Promise<IdentityVerification> {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key is not configured");
-    }
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content: `You are an Identity Verification Agent for a hospital system. 
+    const result = await llm.chatJSON([
+      {
+        role: "system",
+        content: `You are an Identity Verification Agent for a hospital system. 
 Analyze the provided document text and extract identity information.
-          
+        
 For Indian documents:
 - Aadhaar: 12-digit number, verify format and checksum
 - PAN: 10-character alphanumeric, verify format
@@ -75,17 +76,12 @@ Return JSON with:
 - verificationScore: number between 0-100 indicating confidence
 
 Be thorough in checking for inconsistencies and validity.`
-        },
-        {
-          role: "user",
-          content: `Document Type: ${documentType}\nDocument Text: ${documentText}`
-        },
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 800,
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+      },
+      {
+        role: "user",
+        content: `Document Type: ${documentType}\nDocument Text: ${documentText}`
+      },
+    ], { task: "identity_verification", maxTokens: 800 });
     
     return {
       documentType: result.documentType || documentType,
@@ -118,18 +114,12 @@ Be thorough in checking for inconsistencies and validity.`
  */
 export async function referralParser(referralText: string): Promise<ReferralData> {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key is not configured");
-    }
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content: `You are a Referral Parser Agent for a hospital system.
+    const result = await llm.chatJSON([
+      {
+        role: "system",
+        content: `You are a Referral Parser Agent for a hospital system.
 Extract key information from hospital referral documents and determine routing.
-          
+        
 Extract and return JSON with:
 - referringHospital: name of referring hospital
 - referringDoctor: name of referring doctor
@@ -141,17 +131,12 @@ Extract and return JSON with:
 - specialInstructions: any special instructions or notes
 
 Analyze medical terminology and context to determine urgency and department routing.`
-        },
-        {
-          role: "user",
-          content: `Referral Document: ${referralText}`
-        },
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 800,
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+      },
+      {
+        role: "user",
+        content: `Referral Document: ${referralText}`
+      },
+    ], { task: "referral_parsing", maxTokens: 800 });
     
     return {
       referringHospital: result.referringHospital || "",
@@ -179,23 +164,35 @@ Analyze medical terminology and context to determine urgency and department rout
   }
 }
 
+// Models are not consistent about shapes, so coerce each section to { items, confidence }
+function normalizeMedicalHistory(raw: any): MedicalHistoryExtraction {
+  const history = {} as MedicalHistoryExtraction;
+  for (const key of medicalHistoryFields) {
+    const section = raw?.[key];
+    const items: unknown[] = Array.isArray(section?.items) ? section.items
+      : Array.isArray(section) ? section
+      : typeof section === "string" ? section.split(/[,;\n]/)
+      : [];
+    const cleaned = items.map(item => String(item).trim()).filter(Boolean);
+    history[key] = {
+      items: cleaned,
+      confidence: cleaned.length > 0 ? Math.max(0, Math.min(100, Number(section?.confidence) || 0)) : 0
+    };
+  }
+  return history;
+}
+
 /**
  * Document Analyzer Agent
  */
 export async function documentAnalyzer(documentText: string, documentType?: string): Promise<VerificationResult> {
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key is not configured");
-    }
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content: `You are a Document Analysis Agent for a hospital system.
+    const result = await llm.chatJSON([
+      {
+        role: "system",
+        content: `You are a Document Analysis Agent for a hospital system.
 Analyze any type of document and extract relevant information.
-          
+        
 Return JSON with:
 - success: boolean indicating if analysis was successful
 - documentType: detected or specified document type
@@ -204,19 +201,17 @@ Return JSON with:
 - verificationStatus: verified/pending/failed
 - flags: array of any issues or concerns found
 - recommendations: array of recommendations for next steps
+- medicalHistory: object with allergies, medications, conditions, surgeries and familyHistory, each
+  { items: array of strings, confidence: number between 0-100 }. Only list what the document states;
+  use an empty items array with confidence 0 when a section is absent.
 
 Handle various document types: medical records, insurance cards, prescriptions, lab reports, etc.`
-        },
-        {
-          role: "user",
-          content: `Document Type: ${documentType || 'unknown'}\nDocument Content: ${documentText}`
-        },
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 1000,
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+      },
+      {
+        role: "user",
+        content: `Document Type: ${documentType || 'unknown'}\nDocument Content: ${documentText}`
+      },
+    ], { task: "document_analysis", maxTokens: 1000 });
     
     return {
       success: Boolean(result.success),
@@ -225,7 +220,8 @@ Handle various document types: medical records, insurance cards, prescriptions,
       extractedData: result.extractedData || {},
       verificationStatus: ['verified', 'pending', 'failed'].includes(result.verificationStatus) ? result.verificationStatus : 'pending',
       flags: Array.isArray(result.flags) ? result.flags : [],
-      recommendations: Array.isArray(result.recommendations) ? result.recommendations : []
+      recommendations: Array.isArray(result.recommendations) ? result.recommendations : [],
+      medicalHistory: normalizeMedicalHistory(result.medicalHistory)
     };
 
   } catch (error) {
@@ -291,8 +287,8 @@ export async function multiAgentVerification(
   const summary = generateVerificationSummary(
     identityResult,
     documentResult,
-    referralResult,
-    overallStatus
+    overallStatus,
+    referralResult
   );
 
   return {
@@ -308,8 +304,8 @@ export async function multiAgentVerification(
 function generateVerificationSummary(
   identity: IdentityVerification,
   document: VerificationResult,
-  referral?: ReferralData,
-  status: string
+  status: string,
+  referral?: ReferralData
 ): string {
   const parts = [];
   parts.push(`Document Type: ${identity.documentType}`);
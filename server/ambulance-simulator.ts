@@ -0,0 +1,125 @@
+import { storage } from "./storage";
+import { type IAmbulance, type IDispatch } from "./db";
+import {
+  assignAmbulance,
+  dispatchConfig,
+  dispatchTarget,
+  transitionDispatch,
+  updateAmbulancePosition,
+  type Coordinates,
+} from "./dispatch";
+import { distanceKm } from "./road-network";
+import { log } from "./vite";
+
+/*
+ * Drives simulated ambulances through their dispatches so the emergency flow
+ * can be exercised end to end without real crews. Each tick moves every busy
+ * simulated unit a step along a straight path to its target and advances the
+ * dispatch when it gets there, using the same functions the API calls.
+ */
+
+const simulatorConfig = {
+  units: Number(process.env.AMBULANCE_SIMULATOR_UNITS) || 3,
+  tickMs: Number(process.env.AMBULANCE_SIMULATOR_TICK_MS) || 2000,
+  // Time runs this many times faster than real time
+  speedup: Number(process.env.AMBULANCE_SIMULATOR_SPEEDUP) || 10,
+  onSceneSeconds: Number(process.env.AMBULANCE_SIMULATOR_ON_SCENE_SECONDS) || 60,
+};
+
+// Moves `km` along the straight line from `from` towards `to`, stopping at `to`
+function stepTowards(from: Coordinates, to: Coordinates, km: number): { position: Coordinates; reached: boolean } {
+  const remaining = distanceKm(from, to);
+  if (remaining <= km) {
+    return { position: to, reached: true };
+  }
+  const fraction = km / remaining;
+  return {
+    position: {
+      latitude: from.latitude + (to.latitude - from.latitude) * fraction,
+      longitude: from.longitude + (to.longitude - from.longitude) * fraction,
+    },
+    reached: false,
+  };
+}
+
+// Park the simulated fleet a few kilometres around the hospital
+async function seedSimulatedUnits() {
+  const existing = (await storage.getAllAmbulances()).filter(a => a.simulated);
+  for (let i = existing.length; i < simulatorConfig.units; i++) {
+    const angle = (2 * Math.PI * i) / simulatorConfig.units;
+    const latitude = dispatchConfig.hospitalLatitude + 0.03 * Math.cos(angle);
+    const longitude = dispatchConfig.hospitalLongitude + 0.03 * Math.sin(angle);
+    await storage.createAmbulance({
+      callSign: `SIM-${i + 1}`,
+      simulated: true,
+      baseStation: { name: `Simulated station ${i + 1}`, latitude, longitude },
+      latitude,
+      longitude,
+    });
+  }
+}
+
+async function advance(dispatch: IDispatch, ambulance: IAmbulance) {
+  const id = dispatch._id.toString();
+
+  switch (dispatch.status) {
+    case "assigned":
+      await transitionDispatch(id, "en_route");
+      return;
+    case "on_scene": {
+      const arrivedAt = dispatch.statusHistory[dispatch.statusHistory.length - 1]?.at;
+      const elapsed = (Date.now() - new Date(arrivedAt).getTime()) * simulatorConfig.speedup;
+      if (elapsed >= simulatorConfig.onSceneSeconds * 1000) {
+        await transitionDispatch(id, "transporting");
+      }
+      return;
+    }
+    case "en_route":
+    case "transporting": {
+      const km = dispatchConfig.averageSpeedKmh * (simulatorConfig.tickMs / 3600000) * simulatorConfig.speedup;
+      const { position, reached } = stepTowards(ambulance, dispatchTarget(dispatch), km);
+      await updateAmbulancePosition(ambulance._id.toString(), position);
+      if (reached) {
+        await transitionDispatch(id, dispatch.status === "en_route" ? "on_scene" : "arrived");
+      }
+      return;
+    }
+  }
+}
+
+async function tick() {
+  for (const dispatch of await storage.getActiveDispatches()) {
+    if (dispatch.status === "requested") {
+      await assignAmbulance(dispatch);
+      continue;
+    }
+    const ambulance = dispatch.ambulanceId ? await storage.getAmbulance(dispatch.ambulanceId) : undefined;
+    if (ambulance?.simulated) {
+      await advance(dispatch, ambulance);
+    }
+  }
+}
+
+/**
+ * Seeds simulated units and starts moving them. Enabled with AMBULANCE_SIMULATOR=true.
+ */
+export async function startAmbulanceSimulator() {
+  await seedSimulatedUnits();
+
+  let running = false;
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap when storage is slow
+    if (running) return;
+    running = true;
+    try {
+      await tick();
+    } catch (error) {
+      console.error("Ambulance simulator tick failed:", error);
+    } finally {
+      running = false;
+    }
+  }, simulatorConfig.tickMs);
+  timer.unref();
+
+  log(`ambulance simulator running with ${simulatorConfig.units} units`);
+}
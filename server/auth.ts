@@ -0,0 +1,158 @@
+import type { Express } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { type IUser } from "./db";
+
+declare global {
+  namespace Express {
+    interface User extends IUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+const MemoryStore = createMemoryStore(session);
+
+/**
+ * Hashes a password with a random salt, stored as "<hash>.<salt>"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+/**
+ * Compares a plain password against a stored "<hash>.<salt>" value
+ */
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash to the client
+export function toPublicUser(user: IUser) {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Creates the initial admin account from ADMIN_USERNAME / ADMIN_PASSWORD
+ * when it does not exist yet, so a fresh install has someone who can log in.
+ */
+export async function seedAdminUser() {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) {
+    return;
+  }
+
+  const existing = await storage.getUserByUsername(username);
+  if (existing) {
+    return;
+  }
+
+  await storage.createUser({
+    username,
+    password: await hashPassword(password),
+    name: process.env.ADMIN_NAME || "Administrator",
+    role: "admin",
+  });
+  console.log(`Created initial admin user "${username}"`);
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    console.warn("SESSION_SECRET is not set - using a random secret, sessions will not survive restarts");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired entries every 24h
+    }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 8 * 60 * 60 * 1000, // one shift
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user._id.toString()));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // Log in with username and password
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: IUser | false) => {
+      if (err) {
+        return next(err);
+      }
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) {
+          return next(loginErr);
+        }
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  // Log out and destroy the session
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) {
+        return next(err);
+      }
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  // Get the currently logged in user
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not logged in" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
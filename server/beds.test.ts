@@ -0,0 +1,105 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage, NoBedAvailableError } from "./storage";
+import type { IBed } from "./db";
+
+const unit = "general_admission";
+
+async function ward(beds: Partial<IBed>[]) {
+  const storage = new MemStorage();
+  for (const bed of beds) {
+    await storage.createBed({ unit, unitName: "General Admission", room: "101", ...bed });
+  }
+  return storage;
+}
+
+async function newPatient(storage: MemStorage, sex?: "male" | "female") {
+  const patient = await storage.createPatient({
+    firstName: "Asha",
+    lastName: "Rao",
+    dateOfBirth: "1990-01-01",
+    phone: "9999999999",
+    address: "Delhi",
+    sex,
+  });
+  return patient._id.toString();
+}
+
+async function occupiedBy(storage: MemStorage, patientId: string) {
+  return (await storage.getBeds()).filter(bed => bed.status === "occupied" && bed.patientId === patientId);
+}
+
+test("completing onboarding reserves a bed and admits the patient to it", async () => {
+  const storage = await ward([{ label: "A" }, { label: "B" }]);
+  const id = await newPatient(storage);
+
+  const patient = await storage.completeOnboarding(id, { unit });
+  const [bed] = await occupiedBy(storage, id);
+  assert.equal(patient?.isCompleted, true);
+  assert.equal(patient?.bedId, bed._id);
+  assert.equal(patient?.admissionLocation, "General Admission - Room 101, Bed A");
+});
+
+test("a double submit reserves only one bed", async () => {
+  const storage = await ward([{ label: "A" }, { label: "B" }, { label: "C" }]);
+  const id = await newPatient(storage);
+
+  await Promise.all([1, 2, 3].map(() => storage.completeOnboarding(id, { unit })));
+  assert.equal((await occupiedBy(storage, id)).length, 1);
+  assert.equal((await storage.getBeds()).filter(bed => bed.status === "available").length, 2);
+});
+
+test("completing again keeps the bed already held", async () => {
+  const storage = await ward([{ label: "A" }, { label: "B" }]);
+  const id = await newPatient(storage);
+
+  const first = await storage.completeOnboarding(id, { unit });
+  const second = await storage.completeOnboarding(id, { unit });
+  assert.equal(second?.bedId, first?.bedId);
+});
+
+test("two patients racing for the last bed: one is admitted, the other is told the unit is full", async () => {
+  const storage = await ward([{ label: "A" }]);
+  const first = await newPatient(storage);
+  const second = await newPatient(storage);
+
+  const results = await Promise.allSettled([
+    storage.completeOnboarding(first, { unit }),
+    storage.completeOnboarding(second, { unit }),
+  ]);
+  assert.equal(results.filter(result => result.status === "fulfilled").length, 1);
+  const [rejected] = results.filter((result): result is PromiseRejectedResult => result.status === "rejected");
+  assert.ok(rejected.reason instanceof NoBedAvailableError);
+});
+
+test("beds follow sex restrictions and isolation requests", async () => {
+  const storage = await ward([
+    { label: "A", genderRestriction: "female" },
+    { label: "B", isolation: true },
+    { label: "C" },
+  ]);
+
+  const man = await storage.completeOnboarding(await newPatient(storage, "male"), { unit });
+  assert.match(man?.admissionLocation ?? "", /Bed C$/);
+
+  const isolated = await storage.completeOnboarding(await newPatient(storage, "female"), { unit, requiresIsolation: true });
+  assert.match(isolated?.admissionLocation ?? "", /Bed B$/);
+
+  await assert.rejects(storage.completeOnboarding(await newPatient(storage, "male"), { unit }), NoBedAvailableError);
+});
+
+test("discharge frees the bed and clears the location", async () => {
+  const storage = await ward([{ label: "A" }]);
+  const id = await newPatient(storage);
+  await storage.completeOnboarding(id, { unit });
+
+  const patient = await storage.dischargePatient(id);
+  assert.equal(patient?.bedId, null);
+  assert.equal(patient?.admissionLocation, null);
+  assert.ok(patient?.dischargedAt);
+  assert.equal((await occupiedBy(storage, id)).length, 0);
+
+  // The freed bed goes to the next patient
+  const next = await storage.completeOnboarding(await newPatient(storage), { unit });
+  assert.match(next?.admissionLocation ?? "", /Bed A$/);
+});
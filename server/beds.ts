@@ -0,0 +1,57 @@
+import { storage } from "./storage";
+import { emergencyUnits } from "./routing-rules";
+import { ownEntry } from "./lookup";
+import type { IBed } from "./db";
+
+export const generalAdmissionUnit = "general_admission";
+
+// Units patients are admitted to: general admission and the emergency units routing sends to
+export const admissionUnits: Record<string, string> = {
+  [generalAdmissionUnit]: "General Admission",
+  ...Object.fromEntries(Object.values(emergencyUnits).map(unit => [unit.id, unit.name])),
+};
+
+export function isAdmissionUnit(unit: string) {
+  return ownEntry(admissionUnits, unit) !== undefined;
+}
+
+export function admissionUnitName(unit: string) {
+  return ownEntry(admissionUnits, unit) ?? unit;
+}
+
+type BedSpec = Pick<IBed, "unit" | "room" | "label"> & Partial<Pick<IBed, "isolation" | "genderRestriction">>;
+
+function room(unit: string, name: string, labels: string[], options: Partial<BedSpec> = {}): BedSpec[] {
+  return labels.map(label => ({ unit, room: name, label, ...options }));
+}
+
+// A small ward per unit so a fresh install can admit patients; real inventory is managed through /api/beds
+const defaultBeds: BedSpec[] = [
+  ...room(generalAdmissionUnit, "201", ["A", "B"], { genderRestriction: "male" }),
+  ...room(generalAdmissionUnit, "202", ["A", "B"], { genderRestriction: "female" }),
+  ...room(generalAdmissionUnit, "203", ["A", "B"]),
+  ...room(generalAdmissionUnit, "204", ["A", "B"]),
+  ...room(generalAdmissionUnit, "205", ["A"], { isolation: true }),
+  ...room("emergency_room", "ER", ["1", "2", "3", "4", "5", "6"]),
+  ...room("emergency_room", "ER-ISO", ["1"], { isolation: true }),
+  ...room("icu", "ICU", ["1", "2"]),
+  ...room("icu", "ICU-ISO", ["1", "2"], { isolation: true }),
+  ...room("trauma_center", "T", ["1", "2"]),
+  ...room("cardiac_unit", "CCU", ["1", "2", "3"]),
+  ...room("pediatric_er", "PED", ["1", "2"]),
+  ...room("pediatric_er", "PED-ISO", ["1"], { isolation: true }),
+];
+
+/**
+ * Creates the default beds when the inventory is empty
+ */
+export async function seedBeds() {
+  const existing = await storage.getBeds();
+  if (existing.length > 0) {
+    return;
+  }
+  for (const bed of defaultBeds) {
+    await storage.createBed({ ...bed, unitName: admissionUnitName(bed.unit) });
+  }
+  console.log(`Created ${defaultBeds.length} default beds`);
+}
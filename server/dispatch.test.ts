@@ -0,0 +1,104 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { InvalidDispatchTransitionError, requestDispatch, transitionDispatch } from "./dispatch";
+
+const pickup = { latitude: 37.7793, longitude: -122.4192 };
+
+async function ambulance(callSign: string, latitude: number, longitude: number) {
+  const unit = await storage.createAmbulance({
+    callSign,
+    baseStation: { name: `${callSign} station`, latitude, longitude },
+    latitude,
+    longitude,
+  });
+  return unit._id.toString();
+}
+
+// Takes every free unit out of service, so a test controls the whole fleet
+async function takeFleetOffline() {
+  for (const unit of await storage.getAllAmbulances()) {
+    if (unit.status === "available") {
+      await storage.updateAmbulance(unit._id.toString(), { status: "offline" });
+    }
+  }
+}
+
+test("a request gets the nearest available ambulance and an ETA", async () => {
+  await takeFleetOffline();
+  const near = await ambulance("NEAR-1", 37.7800, -122.4200);
+  await ambulance("FAR-1", 37.5000, -122.2000);
+
+  const dispatch = await requestDispatch({ ...pickup, emergencyType: "cardiac" });
+  assert.equal(dispatch.status, "assigned");
+  assert.equal(dispatch.ambulanceId, near);
+  assert.ok(dispatch.etaMinutes && dispatch.etaMinutes >= 1);
+  assert.equal((await storage.getAmbulance(near))?.status, "dispatched");
+
+  await transitionDispatch(dispatch._id.toString(), "cancelled");
+  assert.equal((await storage.getAmbulance(near))?.status, "available");
+});
+
+test("a run moves through each state and frees its ambulance at the end", async () => {
+  await takeFleetOffline();
+  const unit = await ambulance("RUN-1", 37.7800, -122.4200);
+  const id = (await requestDispatch(pickup))._id.toString();
+
+  await transitionDispatch(id, "en_route");
+  const onScene = await transitionDispatch(id, "on_scene");
+  // No ETA while the crew is with the patient
+  assert.equal(onScene?.etaMinutes, undefined);
+  assert.equal(onScene?.distanceKm, undefined);
+
+  const transporting = await transitionDispatch(id, "transporting");
+  assert.ok(transporting?.etaMinutes);
+  const arrived = await transitionDispatch(id, "arrived");
+
+  assert.deepEqual(
+    arrived?.statusHistory.map(entry => entry.status),
+    ["requested", "assigned", "en_route", "on_scene", "transporting", "arrived"],
+  );
+  assert.equal((await storage.getAmbulance(unit))?.status, "available");
+});
+
+test("skipping a state or leaving a finished one is rejected", async () => {
+  await takeFleetOffline();
+  await ambulance("SKIP-1", 37.7800, -122.4200);
+  const id = (await requestDispatch(pickup))._id.toString();
+
+  await assert.rejects(transitionDispatch(id, "arrived"), InvalidDispatchTransitionError);
+  await assert.rejects(transitionDispatch(id, "assigned"), InvalidDispatchTransitionError);
+  await transitionDispatch(id, "cancelled");
+  await assert.rejects(transitionDispatch(id, "en_route"), InvalidDispatchTransitionError);
+  assert.equal(await transitionDispatch("64b7f0c2a1b2c3d4e5f60718", "en_route"), undefined);
+});
+
+test("of two callers moving the same dispatch at once, only one succeeds", async () => {
+  await takeFleetOffline();
+  await ambulance("RACE-1", 37.7800, -122.4200);
+  const id = (await requestDispatch(pickup))._id.toString();
+
+  const results = await Promise.allSettled([transitionDispatch(id, "en_route"), transitionDispatch(id, "en_route")]);
+  assert.equal(results.filter(result => result.status === "fulfilled").length, 1);
+  const history = (await storage.getDispatch(id))?.statusHistory.map(entry => entry.status);
+  assert.deepEqual(history, ["requested", "assigned", "en_route"]);
+
+  await transitionDispatch(id, "cancelled");
+});
+
+test("with the fleet busy a request waits, then takes the first unit to come free", async () => {
+  await takeFleetOffline();
+  const unit = await ambulance("QUEUE-1", 37.7800, -122.4200);
+  const first = (await requestDispatch(pickup))._id.toString();
+
+  const queued = await requestDispatch(pickup);
+  assert.equal(queued.status, "requested");
+  assert.equal(queued.ambulanceId, undefined);
+
+  await transitionDispatch(first, "cancelled");
+  const assigned = await storage.getDispatch(queued._id.toString());
+  assert.equal(assigned?.status, "assigned");
+  assert.equal(assigned?.ambulanceId, unit);
+
+  await transitionDispatch(queued._id.toString(), "cancelled");
+});
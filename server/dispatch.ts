@@ -0,0 +1,281 @@
+import { storage } from "./storage";
+import { type IAmbulance, type IDispatch, type DispatchStatus } from "./db";
+import { distanceKm, getRoadGraph, roadRoute } from "./road-network";
+
+// 0 is a valid coordinate (the equator, Greenwich), so only an unset or non-numeric value falls back
+function coordinateFromEnv(name: string, fallback: number): number {
+  const value = process.env[name]?.trim();
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export const dispatchConfig = {
+  // Where patients are taken; defaults match the client's fallback location
+  hospitalLatitude: coordinateFromEnv("HOSPITAL_LATITUDE", 37.7749),
+  hospitalLongitude: coordinateFromEnv("HOSPITAL_LONGITUDE", -122.4194),
+  averageSpeedKmh: Number(process.env.AMBULANCE_SPEED_KMH) || 40,
+};
+
+// Which states a dispatch may move to from each state
+const transitions: Record<DispatchStatus, DispatchStatus[]> = {
+  requested: ["assigned", "cancelled"],
+  assigned: ["en_route", "cancelled"],
+  en_route: ["on_scene", "cancelled"],
+  on_scene: ["transporting", "cancelled"],
+  transporting: ["arrived"],
+  arrived: [],
+  cancelled: [],
+};
+
+const statusDescriptions: Record<DispatchStatus, string> = {
+  requested: "requested",
+  assigned: "assigned",
+  en_route: "en route to patient",
+  on_scene: "on scene",
+  transporting: "transporting patient",
+  arrived: "arrived at hospital",
+  cancelled: "cancelled",
+};
+
+export class InvalidDispatchTransitionError extends Error {
+  constructor(from: DispatchStatus, to: DispatchStatus) {
+    super(`Cannot move a dispatch from ${from} to ${to}`);
+    this.name = "InvalidDispatchTransitionError";
+  }
+}
+
+export function isFinished(status: DispatchStatus): boolean {
+  return transitions[status].length === 0;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface RouteEstimate {
+  distanceKm: number;
+  etaMinutes: number;
+  method: "road" | "great_circle";
+}
+
+/**
+ * Travel distance and time between two points, over the road graph when one
+ * is loaded and connects them, otherwise as the crow flies at average speed
+ */
+export function estimateRoute(from: Coordinates, to: Coordinates): RouteEstimate {
+  const graph = getRoadGraph(dispatchConfig.averageSpeedKmh);
+  const route = graph ? roadRoute(graph, from, to, dispatchConfig.averageSpeedKmh) : undefined;
+  if (route) {
+    return { distanceKm: route.distanceKm, etaMinutes: Math.max(1, Math.ceil(route.minutes)), method: "road" };
+  }
+
+  const km = distanceKm(from, to);
+  return {
+    distanceKm: km,
+    etaMinutes: Math.max(1, Math.ceil(km / dispatchConfig.averageSpeedKmh * 60)),
+    method: "great_circle",
+  };
+}
+
+// The ambulance heads for the pickup until the patient is on board, then for the hospital
+export function dispatchTarget(dispatch: IDispatch): Coordinates {
+  return dispatch.status === "transporting"
+    ? { latitude: dispatch.destinationLatitude, longitude: dispatch.destinationLongitude }
+    : { latitude: dispatch.pickupLatitude, longitude: dispatch.pickupLongitude };
+}
+
+function etaFields(from: Coordinates, to: Coordinates): Partial<IDispatch> {
+  const route = estimateRoute(from, to);
+  return {
+    etaMinutes: route.etaMinutes,
+    estimatedArrival: new Date(Date.now() + route.etaMinutes * 60000),
+    distanceKm: Math.round(route.distanceKm * 10) / 10,
+    routeMethod: route.method
+  };
+}
+
+async function logDispatchActivity(dispatch: IDispatch, description: string) {
+  if (dispatch.patientId) {
+    await storage.createActivity({
+      patientId: dispatch.patientId,
+      action: "ambulance_" + dispatch.status,
+      description
+    });
+  }
+}
+
+/**
+ * Moves a dispatch to a new state, recording it in the status history.
+ * Finishing or cancelling a run frees the ambulance for the next call.
+ */
+export async function transitionDispatch(
+  id: string,
+  status: DispatchStatus,
+  updates: Partial<IDispatch> = {},
+): Promise<IDispatch | undefined> {
+  const dispatch = await storage.getDispatch(id);
+  if (!dispatch) {
+    return undefined;
+  }
+  if (!transitions[dispatch.status].includes(status)) {
+    throw new InvalidDispatchTransitionError(dispatch.status, status);
+  }
+
+  const ambulanceId = updates.ambulanceId || dispatch.ambulanceId;
+  const ambulance = ambulanceId ? await storage.getAmbulance(ambulanceId) : undefined;
+  const next = { ...dispatch, ...updates, status };
+  const eta = ambulance && !isFinished(status) && status !== "on_scene"
+    ? etaFields(ambulance, dispatchTarget(next))
+    : { etaMinutes: undefined, estimatedArrival: undefined, distanceKm: undefined };
+
+  const updated = await storage.advanceDispatch(id, dispatch.status, status, { ...updates, ...eta });
+  if (!updated) {
+    // Someone else moved it on since it was read
+    const current = await storage.getDispatch(id);
+    if (!current) {
+      return undefined;
+    }
+    throw new InvalidDispatchTransitionError(current.status, status);
+  }
+
+  await logDispatchActivity(updated, `Ambulance ${ambulance ? ambulance.callSign + " " : ""}${statusDescriptions[status]}`);
+  if (ambulance && isFinished(status)) {
+    await storage.updateAmbulance(ambulance._id.toString(), { status: "available" });
+    await assignQueuedDispatch();
+  }
+  return updated;
+}
+
+/**
+ * Gives the longest-waiting dispatch a unit, for when one comes back into
+ * service. A failure is logged rather than thrown, since the change that
+ * freed the unit has already been saved.
+ */
+export async function assignQueuedDispatch(): Promise<IDispatch | undefined> {
+  try {
+    const queued = (await storage.getActiveDispatches()).find(d => d.status === "requested");
+    return queued ? await assignAmbulance(queued) : undefined;
+  } catch (error) {
+    console.error("Error assigning a queued dispatch:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Assigns the available ambulance that can reach the pickup soonest. Leaves
+ * the dispatch requested when the whole fleet is busy.
+ */
+export async function assignAmbulance(dispatch: IDispatch): Promise<IDispatch> {
+  const pickup = { latitude: dispatch.pickupLatitude, longitude: dispatch.pickupLongitude };
+  const candidates = (await storage.getAllAmbulances())
+    .filter(a => a.status === "available")
+    .map(ambulance => ({ ambulance, route: estimateRoute(ambulance, pickup) }))
+    .sort((a, b) => a.route.etaMinutes - b.route.etaMinutes || a.route.distanceKm - b.route.distanceKm)
+    .map(candidate => candidate.ambulance);
+
+  // Another request may claim a unit between listing and claiming, so fall through to the next nearest
+  for (const candidate of candidates) {
+    const claimed = await storage.claimAmbulance(candidate._id.toString());
+    if (!claimed) {
+      continue;
+    }
+    const ambulanceId = claimed._id.toString();
+    let assigned: IDispatch | undefined;
+    try {
+      assigned = await transitionDispatch(dispatch._id.toString(), "assigned", { ambulanceId });
+    } catch (error) {
+      // Cancelled or assigned elsewhere meanwhile, or failed after the assignment was saved;
+      // the unit goes back into service unless the dispatch actually holds it
+      const current = await storage.getDispatch(dispatch._id.toString());
+      if (current?.ambulanceId?.toString() !== ambulanceId) {
+        await storage.updateAmbulance(ambulanceId, { status: "available" });
+      }
+      if (!(error instanceof InvalidDispatchTransitionError)) {
+        throw error;
+      }
+      return current || dispatch;
+    }
+    if (!assigned) {
+      await storage.updateAmbulance(ambulanceId, { status: "available" });
+      return dispatch;
+    }
+    return assigned;
+  }
+  return dispatch;
+}
+
+/**
+ * Records a new dispatch request for a pickup location and tries to assign a unit
+ */
+export async function requestDispatch(request: Coordinates & { emergencyType?: string; patientId?: string }): Promise<IDispatch> {
+  const dispatch = await storage.createDispatch({
+    patientId: request.patientId || undefined,
+    emergencyType: request.emergencyType,
+    pickupLatitude: request.latitude,
+    pickupLongitude: request.longitude,
+    destinationLatitude: dispatchConfig.hospitalLatitude,
+    destinationLongitude: dispatchConfig.hospitalLongitude,
+    status: "requested",
+    statusHistory: [{ status: "requested", at: new Date() }]
+  });
+  return assignAmbulance(dispatch);
+}
+
+/**
+ * Stores an ambulance's reported position and refreshes the ETA of the run it is on
+ */
+export async function updateAmbulancePosition(
+  ambulanceId: string,
+  position: Coordinates,
+): Promise<{ ambulance: IAmbulance; dispatch?: IDispatch } | undefined> {
+  const ambulance = await storage.updateAmbulance(ambulanceId, {
+    latitude: position.latitude,
+    longitude: position.longitude,
+    lastPositionAt: new Date()
+  });
+  if (!ambulance) {
+    return undefined;
+  }
+
+  const active = (await storage.getActiveDispatches()).find(d => d.ambulanceId === ambulanceId);
+  if (!active || active.status === "on_scene") {
+    return { ambulance, dispatch: active };
+  }
+
+  const dispatch = await storage.updateDispatch(active._id.toString(), etaFields(position, dispatchTarget(active)));
+  return { ambulance, dispatch };
+}
+
+/**
+ * What the emergency page shows: the run's state plus where its ambulance is
+ */
+export async function getDispatchStatus(id: string) {
+  const dispatch = await storage.getDispatch(id);
+  if (!dispatch) {
+    return undefined;
+  }
+  const ambulance = dispatch.ambulanceId ? await storage.getAmbulance(dispatch.ambulanceId) : undefined;
+
+  return {
+    id: dispatch._id,
+    status: dispatch.status,
+    patientId: dispatch.patientId,
+    emergencyType: dispatch.emergencyType,
+    etaMinutes: dispatch.etaMinutes,
+    estimatedArrival: dispatch.estimatedArrival,
+    distanceKm: dispatch.distanceKm,
+    routeMethod: dispatch.routeMethod,
+    pickup: { latitude: dispatch.pickupLatitude, longitude: dispatch.pickupLongitude },
+    destination: { latitude: dispatch.destinationLatitude, longitude: dispatch.destinationLongitude },
+    ambulance: ambulance ? {
+      id: ambulance._id,
+      callSign: ambulance.callSign,
+      latitude: ambulance.latitude,
+      longitude: ambulance.longitude,
+      lastPositionAt: ambulance.lastPositionAt
+    } : null,
+    statusHistory: dispatch.statusHistory,
+    updatedAt: dispatch.updatedAt
+  };
+}
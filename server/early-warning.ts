@@ -0,0 +1,87 @@
+import type { VitalSigns } from "../shared/schema";
+
+/*
+ * National Early Warning Score 2 (Royal College of Physicians, 2017), using
+ * SpO2 scale 1. Each parameter scores 0-3 and the total sets the clinical
+ * risk band:
+ *
+ *   0-4, no single 3   low         ward-based response
+ *   3 in one parameter low-medium  urgent ward-based response
+ *   5-6                medium      urgent review by a clinician with acute care skills
+ *   7 or more          high        emergency assessment by a critical care team
+ *
+ * Consciousness is taken from GCS: anything below 15 scores as "not alert".
+ * A score from an incomplete set is a lower bound, so missing parameters are
+ * reported alongside it.
+ */
+
+export const earlyWarningRiskValues = ["low", "low-medium", "medium", "high"] as const;
+export type EarlyWarningRisk = typeof earlyWarningRiskValues[number];
+
+export interface EarlyWarningScore {
+  score: number;
+  risk: EarlyWarningRisk;
+  // Points per scored parameter
+  parameters: { parameter: string; points: number }[];
+  // Parameters NEWS2 needs that weren't measured
+  missing: string[];
+}
+
+export const earlyWarningResponses: Record<EarlyWarningRisk, string> = {
+  "low": "Continue routine observations",
+  "low-medium": "Urgent ward-based review by a registered nurse",
+  "medium": "Urgent review by a clinician with acute care skills",
+  "high": "Emergency assessment by a critical care team",
+};
+
+type Band = [upTo: number, points: number];
+
+// Points for the first band whose upper bound the value doesn't exceed
+function bandPoints(value: number, bands: Band[]) {
+  return bands.find(([upTo]) => value <= upTo)?.[1] ?? 0;
+}
+
+const scales: { parameter: string; read: (vitals: VitalSigns) => number | undefined; bands: Band[] }[] = [
+  { parameter: "respiratoryRate", read: v => v.respiratoryRate, bands: [[8, 3], [11, 1], [20, 0], [24, 2], [Infinity, 3]] },
+  { parameter: "oxygenSaturation", read: v => v.oxygenSaturation, bands: [[91, 3], [93, 2], [95, 1], [Infinity, 0]] },
+  { parameter: "systolicBP", read: v => v.systolicBP, bands: [[90, 3], [100, 2], [110, 1], [219, 0], [Infinity, 3]] },
+  { parameter: "heartRate", read: v => v.heartRate, bands: [[40, 3], [50, 1], [90, 0], [110, 1], [130, 2], [Infinity, 3]] },
+  { parameter: "temperatureC", read: v => v.temperatureC, bands: [[35, 3], [36, 1], [38, 0], [39, 1], [Infinity, 2]] },
+  { parameter: "gcs", read: v => v.gcs, bands: [[14, 3], [Infinity, 0]] },
+];
+
+export function earlyWarningScore(vitals: VitalSigns): EarlyWarningScore {
+  const parameters: EarlyWarningScore["parameters"] = [];
+  const missing: string[] = [];
+
+  for (const { parameter, read, bands } of scales) {
+    const value = read(vitals);
+    if (value === undefined) {
+      missing.push(parameter);
+    } else {
+      parameters.push({ parameter, points: bandPoints(value, bands) });
+    }
+  }
+  if (vitals.onOxygen === undefined) {
+    missing.push("onOxygen");
+  } else {
+    parameters.push({ parameter: "onOxygen", points: vitals.onOxygen ? 2 : 0 });
+  }
+
+  const score = parameters.reduce((total, { points }) => total + points, 0);
+  const risk: EarlyWarningRisk = score >= 7 ? "high"
+    : score >= 5 ? "medium"
+    : parameters.some(({ points }) => points === 3) ? "low-medium"
+    : "low";
+  return { score, risk, parameters, missing };
+}
+
+const riskRank = (risk: EarlyWarningRisk) => earlyWarningRiskValues.indexOf(risk);
+
+/**
+ * Whether a new score moved the patient into a higher band than their last
+ * observations did. The first observations escalate unless they are low risk.
+ */
+export function crossedThreshold(previous: EarlyWarningRisk | undefined, current: EarlyWarningRisk) {
+  return riskRank(current) > riskRank(previous ?? "low");
+}
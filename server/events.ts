@@ -0,0 +1,145 @@
+import { EventEmitter } from "events";
+import type { Request, Response } from "express";
+import type { IStorage } from "./storage";
+import type { IActivity, IAmbulance, IDispatch, IPatient } from "./db";
+
+/*
+ * In-process change feed pushed to staff browsers over Server-Sent Events.
+ * Events are published from storage writes, so changes made by the API, the
+ * ambulance simulator and access-denial logging all reach the dashboard.
+ */
+
+export type ServerEvent =
+  | { type: "activity.created"; data: { id: string; patientId?: string; action: string; description: string; createdAt: Date } }
+  | { type: "patient.created" | "patient.updated"; data: PatientSummary }
+  | { type: "dispatch.updated"; data: DispatchSummary }
+  | { type: "ambulance.updated"; data: AmbulanceSummary };
+
+// Only what lists and badges need; clinical fields stay behind the role-checked REST routes
+type PatientSummary = Pick<IPatient,
+  "firstName" | "lastName" | "isEmergency" | "isProvisional" | "isCompleted" | "onboardingStep" | "admissionLocation" | "emergencyType"
+> & { id: string };
+
+type DispatchSummary = Pick<IDispatch, "status" | "patientId" | "ambulanceId" | "etaMinutes" | "estimatedArrival" | "distanceKm"> & { id: string };
+
+type AmbulanceSummary = Pick<IAmbulance, "callSign" | "status" | "latitude" | "longitude" | "lastPositionAt"> & { id: string };
+
+const emitter = new EventEmitter();
+// Every open browser tab is a listener
+emitter.setMaxListeners(0);
+
+export function publish(event: ServerEvent) {
+  emitter.emit("event", event);
+}
+
+export function subscribe(listener: (event: ServerEvent) => void): () => void {
+  emitter.on("event", listener);
+  return () => emitter.off("event", listener);
+}
+
+function patientSummary(patient: IPatient): PatientSummary {
+  return {
+    id: patient._id.toString(),
+    firstName: patient.firstName,
+    lastName: patient.lastName,
+    isEmergency: patient.isEmergency,
+    isProvisional: patient.isProvisional,
+    isCompleted: patient.isCompleted,
+    onboardingStep: patient.onboardingStep,
+    admissionLocation: patient.admissionLocation,
+    emergencyType: patient.emergencyType,
+  };
+}
+
+function dispatchSummary(dispatch: IDispatch): DispatchSummary {
+  return {
+    id: dispatch._id.toString(),
+    status: dispatch.status,
+    patientId: dispatch.patientId,
+    ambulanceId: dispatch.ambulanceId,
+    etaMinutes: dispatch.etaMinutes,
+    estimatedArrival: dispatch.estimatedArrival,
+    distanceKm: dispatch.distanceKm,
+  };
+}
+
+function ambulanceSummary(ambulance: IAmbulance): AmbulanceSummary {
+  return {
+    id: ambulance._id.toString(),
+    callSign: ambulance.callSign,
+    status: ambulance.status,
+    latitude: ambulance.latitude,
+    longitude: ambulance.longitude,
+    lastPositionAt: ambulance.lastPositionAt,
+  };
+}
+
+// Storage methods whose results are broadcast, and the event each one becomes
+const broadcasts: Partial<Record<keyof IStorage, (result: any) => ServerEvent>> = {
+  createActivity: (activity: IActivity) => ({
+    type: "activity.created",
+    data: {
+      id: activity._id.toString(),
+      patientId: activity.patientId?.toString(),
+      action: activity.action,
+      description: activity.description,
+      createdAt: activity.createdAt,
+    },
+  }),
+  createPatient: (patient: IPatient) => ({ type: "patient.created", data: patientSummary(patient) }),
+  updatePatient: (patient: IPatient) => ({ type: "patient.updated", data: patientSummary(patient) }),
+  completeOnboarding: (patient: IPatient) => ({ type: "patient.updated", data: patientSummary(patient) }),
+  dischargePatient: (patient: IPatient) => ({ type: "patient.updated", data: patientSummary(patient) }),
+  mergePatients: (patient: IPatient) => ({ type: "patient.updated", data: patientSummary(patient) }),
+  createDispatch: (dispatch: IDispatch) => ({ type: "dispatch.updated", data: dispatchSummary(dispatch) }),
+  updateDispatch: (dispatch: IDispatch) => ({ type: "dispatch.updated", data: dispatchSummary(dispatch) }),
+  advanceDispatch: (dispatch: IDispatch) => ({ type: "dispatch.updated", data: dispatchSummary(dispatch) }),
+  updateAmbulance: (ambulance: IAmbulance) => ({ type: "ambulance.updated", data: ambulanceSummary(ambulance) }),
+  claimAmbulance: (ambulance: IAmbulance) => ({ type: "ambulance.updated", data: ambulanceSummary(ambulance) }),
+};
+
+/**
+ * Wraps a storage so successful writes listed in `broadcasts` are published
+ */
+export function withChangeEvents(target: IStorage): IStorage {
+  return new Proxy(target, {
+    get(obj, property, receiver) {
+      const value = Reflect.get(obj, property, receiver);
+      const toEvent = broadcasts[property as keyof IStorage];
+      if (typeof value !== "function" || !toEvent) {
+        return value;
+      }
+      return async (...args: unknown[]) => {
+        const result = await value.apply(obj, args);
+        if (result) {
+          publish(toEvent(result));
+        }
+        return result;
+      };
+    },
+  });
+}
+
+/**
+ * Streams events to one client until it disconnects
+ */
+export function streamEvents(req: Request, res: Response) {
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+  res.write("retry: 5000\n\n");
+
+  const unsubscribe = subscribe((event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  });
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), 25000);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
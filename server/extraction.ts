@@ -0,0 +1,228 @@
+import { createRequire } from "module";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { createWorker, type Worker } from "tesseract.js";
+import { storage } from "./storage";
+import { type IDocument } from "./db";
+
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface LayoutLine {
+  text: string;
+  // Top-left origin, in PDF points for PDFs and pixels for images
+  bbox: BoundingBox;
+  confidence?: number;
+}
+
+export interface PageLayout {
+  pageNumber: number;
+  width?: number;
+  height?: number;
+  lines: LayoutLine[];
+}
+
+export interface ExtractionResult {
+  method: "pdf" | "ocr" | "text";
+  text: string;
+  pages: PageLayout[];
+  confidence?: number;
+  warnings: string[];
+}
+
+export class UnsupportedDocumentError extends Error {
+  constructor(mimeType: string) {
+    super(`Text extraction is not supported for ${mimeType}`);
+    this.name = "UnsupportedDocumentError";
+  }
+}
+
+// OCR_LANG_PATH points at local *.traineddata files for other languages;
+// fetching them from the tesseract.js CDN has to be turned on explicitly
+const ocrConfig = {
+  lang: process.env.OCR_LANG || "eng",
+  langPath: process.env.OCR_LANG_PATH || undefined,
+  allowDownload: process.env.OCR_DOWNLOAD_LANGUAGES === "true",
+};
+
+// English ships with the app, so OCR works without network access by default
+const bundledLanguage: { code: string; langPath: string; gzip: boolean } =
+  createRequire(import.meta.url)("@tesseract.js-data/eng");
+
+function ocrLanguageSource() {
+  if (ocrConfig.langPath) {
+    return { langPath: ocrConfig.langPath, gzip: false };
+  }
+  if (ocrConfig.lang.split("+").every(lang => lang === bundledLanguage.code)) {
+    // Read in place rather than copied into the working directory
+    return { langPath: bundledLanguage.langPath, gzip: bundledLanguage.gzip, cacheMethod: "none" };
+  }
+  if (ocrConfig.allowDownload) {
+    return {};
+  }
+  throw new Error(`No local language data for OCR_LANG "${ocrConfig.lang}"; set OCR_LANG_PATH, or OCR_DOWNLOAD_LANGUAGES=true to download it`);
+}
+
+let ocrWorker: Promise<Worker> | undefined;
+
+// One worker is shared; tesseract.js queues recognize calls internally
+function getOcrWorker(): Promise<Worker> {
+  if (!ocrWorker) {
+    ocrWorker = Promise.resolve().then(() =>
+      createWorker(ocrConfig.lang, undefined, ocrLanguageSource())
+    ).catch((error) => {
+      ocrWorker = undefined;
+      throw error;
+    });
+  }
+  return ocrWorker;
+}
+
+async function extractFromPdf(data: Buffer): Promise<ExtractionResult> {
+  const pdf = await getDocument({
+    data: new Uint8Array(data),
+    isEvalSupported: false,
+    useSystemFonts: true,
+  }).promise;
+
+  const pages: PageLayout[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      // Group text runs that share a baseline into lines
+      const rows = new Map<number, { x: number; width: number; height: number; text: string }[]>();
+      for (const item of content.items) {
+        if (!("str" in item) || !item.str.trim()) continue;
+        const baseline = Math.round(item.transform[5]);
+        const row = rows.get(baseline) || [];
+        row.push({ x: item.transform[4], width: item.width, height: item.height, text: item.str });
+        rows.set(baseline, row);
+      }
+
+      const lines: LayoutLine[] = Array.from(rows.entries())
+        .sort(([a], [b]) => b - a)
+        .map(([baseline, runs]) => {
+          runs.sort((a, b) => a.x - b.x);
+          const height = Math.max(...runs.map(r => r.height));
+          // PDF coordinates start bottom-left; flip to top-left like OCR output
+          return {
+            text: runs.map(r => r.text).join(" ").replace(/\s+/g, " ").trim(),
+            bbox: {
+              x0: runs[0].x,
+              y0: viewport.height - baseline - height,
+              x1: Math.max(...runs.map(r => r.x + r.width)),
+              y1: viewport.height - baseline,
+            },
+          };
+        });
+
+      pages.push({ pageNumber, width: viewport.width, height: viewport.height, lines });
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  const text = pages.map(p => p.lines.map(l => l.text).join("\n")).join("\n\n").trim();
+  return {
+    method: "pdf",
+    text,
+    pages,
+    warnings: text ? [] : ["PDF has no text layer; scanned PDFs must be uploaded as images for OCR"],
+  };
+}
+
+async function extractFromImage(data: Buffer): Promise<ExtractionResult> {
+  const worker = await getOcrWorker();
+  const { data: result } = await worker.recognize(data);
+
+  const lines: LayoutLine[] = result.lines
+    .filter(line => line.text.trim())
+    .map(line => ({
+      text: line.text.trim(),
+      bbox: line.bbox,
+      confidence: Math.round(line.confidence),
+    }));
+
+  const confidence = Math.round(result.confidence);
+  return {
+    method: "ocr",
+    text: result.text.trim(),
+    pages: [{
+      pageNumber: 1,
+      width: lines.length > 0 ? Math.max(...lines.map(l => l.bbox.x1)) : undefined,
+      height: lines.length > 0 ? Math.max(...lines.map(l => l.bbox.y1)) : undefined,
+      lines,
+    }],
+    confidence,
+    warnings: confidence < 60 ? ["Low OCR confidence; the image may be blurry or rotated"] : [],
+  };
+}
+
+function extractFromText(data: Buffer): ExtractionResult {
+  const text = data.toString("utf8").trim();
+  return {
+    method: "text",
+    text,
+    pages: [{
+      pageNumber: 1,
+      lines: text.split(/\r?\n/).map((line, i) => ({
+        text: line,
+        bbox: { x0: 0, y0: i, x1: line.length, y1: i + 1 },
+      })),
+    }],
+    warnings: [],
+  };
+}
+
+/**
+ * Turns an uploaded file into plain text plus per-page line layout
+ */
+export async function extractText(data: Buffer, mimeType: string): Promise<ExtractionResult> {
+  if (mimeType === "application/pdf") {
+    return extractFromPdf(data);
+  }
+  if (mimeType.startsWith("image/")) {
+    return extractFromImage(data);
+  }
+  if (mimeType.startsWith("text/")) {
+    return extractFromText(data);
+  }
+  throw new UnsupportedDocumentError(mimeType);
+}
+
+/**
+ * Extracts text from a stored document and saves the result on it
+ */
+export async function extractAndStoreDocumentText(document: IDocument): Promise<IDocument | undefined> {
+  const id = document._id.toString();
+  await storage.updateDocument(id, { extractionStatus: "processing" });
+
+  try {
+    const result = await extractText(document.fileData, document.mimeType);
+    return await storage.updateDocument(id, {
+      extractionStatus: "completed",
+      extractionMethod: result.method,
+      extractedText: result.text,
+      pageLayout: result.pages,
+      extractionConfidence: result.confidence,
+      extractionWarnings: result.warnings,
+      extractedAt: new Date()
+    });
+  } catch (error) {
+    if (!(error instanceof UnsupportedDocumentError)) {
+      console.error(`Text extraction failed for document ${id}:`, error);
+    }
+    return await storage.updateDocument(id, {
+      extractionStatus: error instanceof UnsupportedDocumentError ? "unsupported" : "failed",
+      extractionWarnings: [(error as Error).message],
+      extractedAt: new Date()
+    });
+  }
+}
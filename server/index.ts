@@ -1,7 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { connectDB } from "./db";
+import { backfillAmbulanceBaseStations, backfillPatientSearchKeys, connectDB, upgradeLegacyMedicalHistory, upgradeLegacyStaffRole } from "./db";
+import { usingMemoryStorage } from "./storage";
+import { seedAdminUser } from "./auth";
+import { seedRoutingRules } from "./routing-rules";
+import { seedBeds } from "./beds";
+import { seedWayfinding } from "./wayfinding";
+import { startAmbulanceSimulator } from "./ambulance-simulator";
 
 const app = express();
 app.use(express.json());
@@ -37,9 +43,37 @@ app.use((req, res, next) => {
   next();
 });
 
+// Runs once storage is usable
+async function onStorageReady() {
+  if (!usingMemoryStorage) {
+    await upgradeLegacyMedicalHistory();
+    await backfillPatientSearchKeys();
+    await upgradeLegacyStaffRole();
+    await backfillAmbulanceBaseStations();
+  }
+  await seedAdminUser();
+  await seedRoutingRules();
+  await seedBeds();
+  await seedWayfinding();
+  if (process.env.AMBULANCE_SIMULATOR === "true") {
+    await startAmbulanceSimulator();
+  }
+}
+
 (async () => {
-  // Connect to MongoDB
-  await connectDB();
+  // Connect to MongoDB unless running on in-memory storage. The server starts
+  // listening while the connection is retried; /api/health reports readiness.
+  if (usingMemoryStorage) {
+    log("using in-memory storage, data will not be persisted");
+    await onStorageReady();
+  } else {
+    connectDB()
+      .then(onStorageReady)
+      .catch((error) => {
+        console.error("Startup failed:", error);
+        process.exit(1);
+      });
+  }
 
   const server = await registerRoutes(app);
 
@@ -0,0 +1,180 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { resolveTerm } from "./terminology";
+import type { Allergy, Medication } from "../shared/schema";
+
+/*
+ * Drug-allergy and drug-drug interaction checks over the interaction table in
+ * INTERACTION_TABLE_FILE (default server/interaction-table.json). Rules name
+ * drugs by RxNorm ingredient code, either directly or through a class:
+ *
+ *   { "classes": { "penicillins": ["7980", "723", "733"], ... },
+ *     "drugAllergy": [{ "allergen": "penicillins", "drug": "cephalosporins", "severity": "moderate",
+ *                       "message": "...", "advice": "..." }],
+ *     "drugDrug": [{ "drugs": ["11289", "nsaids"], "severity": "major", "message": "...", "advice": "..." }] }
+ *
+ * "message" is for staff and "advice" for the patient. Both may use
+ * {allergen} and {drug}, or {drug1} and {drug2}, for the entries involved.
+ * Entries without an RxNorm code are matched to one by name.
+ */
+
+export const interactionSeverityValues = ["minor", "moderate", "major"] as const;
+export type InteractionSeverity = typeof interactionSeverityValues[number];
+
+const ruleText = {
+  severity: z.enum(interactionSeverityValues),
+  message: z.string().min(1),
+  advice: z.string().min(1),
+};
+
+const interactionTableSchema = z.object({
+  description: z.string().optional(),
+  classes: z.record(z.array(z.string())).default({}),
+  drugAllergy: z.array(z.object({ allergen: z.string(), drug: z.string(), ...ruleText })).default([]),
+  drugDrug: z.array(z.object({ drugs: z.tuple([z.string(), z.string()]), ...ruleText })).default([]),
+});
+
+type InteractionTable = z.infer<typeof interactionTableSchema>;
+
+export interface InteractionWarning {
+  type: "drug-allergy" | "drug-drug";
+  severity: InteractionSeverity;
+  // The allergy and medication, or the two medications, as the patient recorded them
+  subjects: [string, string];
+  message: string;
+  advice: string;
+}
+
+// An allergy or medication that couldn't be matched to a drug code, so no rule could apply to it
+export interface UncheckedEntry {
+  type: "allergy" | "medication";
+  name: string;
+}
+
+export interface InteractionCheck {
+  warnings: InteractionWarning[];
+  unchecked: UncheckedEntry[];
+}
+
+let loaded: InteractionTable | undefined;
+
+function getTable(): InteractionTable {
+  if (loaded === undefined) {
+    const file = process.env.INTERACTION_TABLE_FILE || path.resolve(import.meta.dirname, "interaction-table.json");
+    try {
+      loaded = interactionTableSchema.parse(JSON.parse(readFileSync(file, "utf8")));
+      console.log(`Loaded ${loaded.drugAllergy.length + loaded.drugDrug.length} interaction rules from ${file}`);
+    } catch (error) {
+      console.error(`Failed to load interaction table from ${file}, interaction checks are off:`, error);
+      loaded = { classes: {}, drugAllergy: [], drugDrug: [] };
+    }
+  }
+  return loaded;
+}
+
+// A class name stands for its members; anything else is a single RXCUI
+function inGroup(table: InteractionTable, group: string, rxcui: string) {
+  return table.classes[group] ? table.classes[group].includes(rxcui) : group === rxcui;
+}
+
+function fill(template: string, values: Record<string, string>) {
+  return template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+}
+
+interface Drug {
+  name: string;
+  rxcui?: string;
+}
+
+function toDrug(name: string, code?: { system: string; code: string }): Drug {
+  if (code?.system === "RxNorm") {
+    return { name, rxcui: code.code };
+  }
+  return { name, rxcui: resolveTerm(name, ["RxNorm"])?.code };
+}
+
+const severityRank = (severity: InteractionSeverity) => interactionSeverityValues.indexOf(severity);
+
+/**
+ * Warnings for a patient's allergies and medications, most severe first.
+ * Each allergy-medication or medication pair gets at most one warning, from
+ * its most severe matching rule. Entries with no drug code are listed as
+ * unchecked, so staff know a clean result doesn't cover them.
+ */
+export function checkInteractions({ allergies = [], medications = [] }: {
+  allergies?: Allergy[];
+  medications?: Medication[];
+}): InteractionCheck {
+  const table = getTable();
+  const allergens = allergies.map(allergy => toDrug(allergy.substance, allergy.code));
+  const drugs = medications.map(medication => toDrug(medication.name, medication.code));
+  const warnings: InteractionWarning[] = [];
+
+  const keep = (warning: InteractionWarning | undefined) => {
+    if (warning) warnings.push(warning);
+  };
+  const mostSevere = (candidates: InteractionWarning[]) =>
+    candidates.sort((a, b) => severityRank(b.severity) - severityRank(a.severity))[0];
+
+  for (const allergen of allergens) {
+    if (!allergen.rxcui) continue;
+    for (const drug of drugs) {
+      if (!drug.rxcui) continue;
+      const values = { allergen: allergen.name, drug: drug.name };
+      const candidates: InteractionWarning[] = table.drugAllergy
+        .filter(rule => inGroup(table, rule.allergen, allergen.rxcui!) && inGroup(table, rule.drug, drug.rxcui!))
+        .map(rule => ({
+          type: "drug-allergy",
+          severity: rule.severity,
+          subjects: [allergen.name, drug.name],
+          message: fill(rule.message, values),
+          advice: fill(rule.advice, values),
+        }));
+      // Taking the very drug the patient is allergic to needs no rule
+      if (allergen.rxcui === drug.rxcui) {
+        candidates.push({
+          type: "drug-allergy",
+          severity: "major",
+          subjects: [allergen.name, drug.name],
+          message: fill("{drug} is on the medication list and the patient reports an allergy to it.", values),
+          advice: fill("You listed both an allergy to {allergen} and {drug} as a current medication.", values),
+        });
+      }
+      keep(mostSevere(candidates));
+    }
+  }
+
+  drugs.forEach((first, i) => {
+    drugs.slice(i + 1).forEach(second => {
+      if (!first.rxcui || !second.rxcui || first.rxcui === second.rxcui) return;
+      const candidates: InteractionWarning[] = [];
+      for (const rule of table.drugDrug) {
+        const [a, b] = rule.drugs;
+        // Rules read either way round; the placeholders follow the rule's order
+        const pair = inGroup(table, a, first.rxcui) && inGroup(table, b, second.rxcui) ? [first, second]
+          : inGroup(table, a, second.rxcui) && inGroup(table, b, first.rxcui) ? [second, first]
+          : undefined;
+        if (!pair) continue;
+        const values = { drug1: pair[0].name, drug2: pair[1].name };
+        candidates.push({
+          type: "drug-drug",
+          severity: rule.severity,
+          subjects: [first.name, second.name],
+          message: fill(rule.message, values),
+          advice: fill(rule.advice, values),
+        });
+      }
+      keep(mostSevere(candidates));
+    });
+  });
+
+  const unchecked: UncheckedEntry[] = [
+    ...allergens.filter(allergen => !allergen.rxcui).map(allergen => ({ type: "allergy" as const, name: allergen.name })),
+    ...drugs.filter(drug => !drug.rxcui).map(drug => ({ type: "medication" as const, name: drug.name })),
+  ];
+  return {
+    warnings: warnings.sort((a, b) => severityRank(b.severity) - severityRank(a.severity)),
+    unchecked,
+  };
+}
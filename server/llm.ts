@@ -0,0 +1,140 @@
+import OpenAI from "openai";
+import { runStubTask } from "./llm-stub";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Identifies what a completion is for. Real models only see the prompt; the
+ * stub provider uses the task to pick a rule-based responder.
+ */
+export type LLMTask =
+  | "symptom_analysis"
+  | "medical_advice"
+  | "insurance_analysis"
+  | "patient_query"
+  | "health_recommendations"
+  | "identity_verification"
+  | "referral_parsing"
+  | "document_analysis";
+
+export interface ChatOptions {
+  task: LLMTask;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  chat(messages: ChatMessage[], options: ChatOptions): Promise<string>;
+  chatJSON<T = any>(messages: ChatMessage[], options: ChatOptions): Promise<T>;
+}
+
+// Some local models wrap JSON in markdown fences even in JSON mode
+function parseJSON<T>(content: string): T {
+  const trimmed = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  return JSON.parse(trimmed || "{}");
+}
+
+/**
+ * OpenAI, or any server that speaks the OpenAI chat completions API
+ * (vLLM, Ollama, LM Studio, ...) when a baseURL is given.
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private client?: OpenAI;
+
+  constructor(
+    private readonly config: { apiKey?: string; baseURL?: string; model: string; name?: string },
+  ) {
+    this.name = config.name || "openai";
+  }
+
+  // Created lazily so a missing key only fails the calls that need it
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.config.apiKey && !this.config.baseURL) {
+        throw new Error("OpenAI API key is not configured");
+      }
+      this.client = new OpenAI({
+        apiKey: this.config.apiKey || "not-needed",
+        baseURL: this.config.baseURL,
+      });
+    }
+    return this.client;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions): Promise<string> {
+    const response = await this.getClient().chat.completions.create({
+      model: this.config.model,
+      messages,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+    });
+    return response.choices[0].message.content || "";
+  }
+
+  async chatJSON<T = any>(messages: ChatMessage[], options: ChatOptions): Promise<T> {
+    const response = await this.getClient().chat.completions.create({
+      model: this.config.model,
+      messages,
+      response_format: { type: "json_object" },
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+    });
+    return parseJSON<T>(response.choices[0].message.content || "{}");
+  }
+}
+
+/**
+ * Deterministic rule-based responses for tests and air-gapped deployments
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = "stub";
+
+  async chat(messages: ChatMessage[], options: ChatOptions): Promise<string> {
+    return JSON.stringify(await this.chatJSON(messages, options));
+  }
+
+  async chatJSON<T = any>(messages: ChatMessage[], options: ChatOptions): Promise<T> {
+    const input = messages.filter(m => m.role === "user").map(m => m.content).join("\n");
+    return runStubTask(options.task, input) as T;
+  }
+}
+
+/**
+ * Builds the provider selected by LLM_PROVIDER:
+ * - "openai" (default): api.openai.com with OPENAI_API_KEY
+ * - "local": an OpenAI-compatible endpoint at LLM_BASE_URL
+ * - "stub": offline rule-based responses
+ */
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const provider = env.LLM_PROVIDER || "openai";
+
+  switch (provider) {
+    case "stub":
+      return new StubProvider();
+    case "local":
+      if (!env.LLM_BASE_URL) {
+        throw new Error("LLM_BASE_URL is required when LLM_PROVIDER=local");
+      }
+      return new OpenAIProvider({
+        name: "local",
+        apiKey: env.LLM_API_KEY,
+        baseURL: env.LLM_BASE_URL,
+        model: env.LLM_MODEL || "llama3",
+      });
+    case "openai":
+      return new OpenAIProvider({
+        apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+        baseURL: env.LLM_BASE_URL,
+        model: env.LLM_MODEL || "gpt-4o",
+      });
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}"`);
+  }
+}
+
+export const llm = createLLMProvider();
@@ -0,0 +1,8 @@
+/**
+ * The entry stored under key in a lookup table. Inherited properties don't
+ * count, so ids taken from a request, such as "toString" or "constructor",
+ * aren't found on the object's prototype.
+ */
+export function ownEntry<T>(table: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(table, key) ? table[key] : undefined;
+}
@@ -1,8 +1,5 @@
-import OpenAI from "openai";
-
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY
-});
+import { llm } from "./llm";
+import { triage, triageResult, type Acuity, type TriageResult, type TriageVitals } from "./triage";
 
 export interface PatientDataExtraction {
   firstName?: string;
@@ -32,8 +29,15 @@ export interface SymptomAnalysis {
   urgency: 'low' | 'medium' | 'high';
   recommendations: string[];
   shouldSeekCare: boolean;
+  // The rule-based assessment after the model's view was folded in
+  triage: TriageResult;
+  // False when the model couldn't be reached and only the rules were applied
+  modelAssessed: boolean;
 }
 
+// The acuity a model urgency implies; "low" implies nothing beyond the rules
+const modelAcuity: Record<SymptomAnalysis['urgency'], Acuity> = { high: 2, medium: 3, low: 5 };
+
 export interface InsuranceGuidance {
   coverageAnalysis: string;
   recommendations: string[];
@@ -42,52 +46,66 @@ export interface InsuranceGuidance {
 }
 
 /**
- * Analyzes patient symptoms and provides medical guidance
+ * Analyzes patient symptoms and provides medical guidance. The rule-based
+ * triage sets the minimum urgency: the model can raise it but never lower it,
+ * and if the model fails the patient is told to seek care.
  */
-export async function analyzeSymptoms(symptoms: string, patientAge?: number): Promise<SymptomAnalysis> {
-  try {
-    if (!openai.apiKey) {
-      throw new Error("OpenAI API key is not configured");
-    }
+export async function analyzeSymptoms(
+  symptoms: string,
+  patientAge?: number,
+  vitals?: TriageVitals
+): Promise<SymptomAnalysis> {
+  const rules = triage({ symptoms, age: patientAge, vitals });
+  const ruleConditions = rules.findings.flatMap(finding => finding.condition ? [finding.condition] : []);
+  const ruleRecommendations = rules.findings.flatMap(finding => finding.recommendation ? [finding.recommendation] : []);
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are a medical AI assistant for a hospital onboarding system. 
-          Analyze patient symptoms and provide guidance. Be cautious and always recommend 
-          professional medical care when appropriate. Return JSON with:
-          - possibleConditions: array of possible conditions
-          - urgency: low/medium/high based on symptoms
-          - recommendations: array of immediate actions
-          - shouldSeekCare: boolean indicating if immediate care is needed`
-        },
-        {
-          role: "user",
-          content: `Patient symptoms: ${symptoms}${patientAge ? `\nPatient age: ${patientAge}` : ''}`
-        },
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 800,
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+  try {
+    const result = await llm.chatJSON([
+      {
+        role: "system",
+        content: `You are a medical AI assistant for a hospital onboarding system. 
+        Analyze patient symptoms and provide guidance. Be cautious and always recommend 
+        professional medical care when appropriate. Return JSON with:
+        - possibleConditions: array of possible conditions
+        - urgency: low/medium/high based on symptoms
+        - recommendations: array of immediate actions
+        - shouldSeekCare: boolean indicating if immediate care is needed`
+      },
+      {
+        role: "user",
+        content: `Patient symptoms: ${symptoms}${patientAge ? `\nPatient age: ${patientAge}` : ''}`
+      },
+    ], { task: "symptom_analysis", maxTokens: 800 });
     
+    // An unreadable urgency from the model counts as "medium", not "low"
+    const urgency: SymptomAnalysis['urgency'] = ['low', 'medium', 'high'].includes(result.urgency) ? result.urgency : 'medium';
+    const combined = triageResult(Math.min(rules.acuity, modelAcuity[urgency]) as Acuity, rules.findings);
+    const possibleConditions: string[] = Array.isArray(result.possibleConditions) ? result.possibleConditions : [];
+    const recommendations: string[] = Array.isArray(result.recommendations) ? result.recommendations : [];
+
     return {
-      possibleConditions: Array.isArray(result.possibleConditions) ? result.possibleConditions : [],
-      urgency: ['low', 'medium', 'high'].includes(result.urgency) ? result.urgency : 'low',
-      recommendations: Array.isArray(result.recommendations) ? result.recommendations : [],
-      shouldSeekCare: Boolean(result.shouldSeekCare)
+      possibleConditions: Array.from(new Set([...ruleConditions, ...possibleConditions])),
+      urgency: combined.urgency,
+      recommendations: Array.from(new Set([...ruleRecommendations, ...recommendations])),
+      shouldSeekCare: combined.shouldSeekCare || Boolean(result.shouldSeekCare),
+      triage: combined,
+      modelAssessed: true
     };
 
   } catch (error) {
-    console.error("Symptom analysis failed:", error);
+    console.error("Symptom analysis failed, using rule-based triage only:", error);
+    // Without the model, anything the rules don't clear as urgent is still "see someone"
+    const fallback = triageResult(Math.min(rules.acuity, 3) as Acuity, rules.findings);
     return {
-      possibleConditions: [],
-      urgency: 'low',
-      recommendations: ["Please consult with a healthcare provider for proper diagnosis"],
-      shouldSeekCare: false
+      possibleConditions: ruleConditions,
+      urgency: fallback.urgency,
+      recommendations: [
+        ...ruleRecommendations,
+        "We couldn't complete an automated assessment. Please see a healthcare provider to have your symptoms checked."
+      ],
+      shouldSeekCare: true,
+      triage: fallback,
+      modelAssessed: false
     };
   }
 }
@@ -100,34 +118,23 @@ export async function getMedicalAdvice(
   currentSymptoms?: string
 ): Promise<MedicalAdviceResponse> {
   try {
-    if (!openai.apiKey) {
-      throw new Error("OpenAI API key is not configured");
-    }
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are a medical AI assistant providing personalized health advice. 
-          Consider the patient's medical history, medications, and current symptoms.
-          Return JSON with:
-          - advice: personalized medical advice
-          - urgency: low/medium/high
-          - recommendations: array of specific recommendations
-          - followUpActions: array of follow-up actions`
-        },
-        {
-          role: "user",
-          content: `Patient data: ${JSON.stringify(patientData)}
-          ${currentSymptoms ? `Current symptoms: ${currentSymptoms}` : ''}`
-        },
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 1000,
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = await llm.chatJSON([
+      {
+        role: "system",
+        content: `You are a medical AI assistant providing personalized health advice. 
+        Consider the patient's medical history, medications, and current symptoms.
+        Return JSON with:
+        - advice: personalized medical advice
+        - urgency: low/medium/high
+        - recommendations: array of specific recommendations
+        - followUpActions: array of follow-up actions`
+      },
+      {
+        role: "user",
+        content: `Patient data: ${JSON.stringify(patientData)}
+        ${currentSymptoms ? `Current symptoms: ${currentSymptoms}` : ''}`
+      },
+    ], { task: "medical_advice", maxTokens: 1000 });
     
     return {
       advice: result.advice || "Please consult with your healthcare provider for personalized medical advice.",
@@ -155,34 +162,23 @@ export async function analyzeInsurance(
   medicalProcedures?: string[]
 ): Promise<InsuranceGuidance> {
   try {
-    if (!openai.apiKey) {
-      throw new Error("OpenAI API key is not configured");
-    }
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are an insurance specialist AI assistant. 
-          Analyze insurance coverage and provide guidance on benefits, costs, and next steps.
-          Return JSON with:
-          - coverageAnalysis: analysis of insurance coverage
-          - recommendations: array of insurance recommendations
-          - estimatedCosts: estimated costs information
-          - nextSteps: array of next steps for insurance matters`
-        },
-        {
-          role: "user",
-          content: `Insurance data: ${JSON.stringify(insuranceData)}
-          ${medicalProcedures ? `Planned procedures: ${medicalProcedures.join(', ')}` : ''}`
-        },
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 800,
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = await llm.chatJSON([
+      {
+        role: "system",
+        content: `You are an insurance specialist AI assistant. 
+        Analyze insurance coverage and provide guidance on benefits, costs, and next steps.
+        Return JSON with:
+        - coverageAnalysis: analysis of insurance coverage
+        - recommendations: array of insurance recommendations
+        - estimatedCosts: estimated costs information
+        - nextSteps: array of next steps for insurance matters`
+      },
+      {
+        role: "user",
+        content: `Insurance data: ${JSON.stringify(insuranceData)}
+        ${medicalProcedures ? `Planned procedures: ${medicalProcedures.join(', ')}` : ''}`
+      },
+    ], { task: "insurance_analysis", maxTokens: 800 });
     
     return {
       coverageAnalysis: result.coverageAnalysis || "Please contact your insurance provider for detailed coverage information.",
@@ -212,36 +208,25 @@ export async function analyzePatientQuery(queryText: string): Promise<{
   response: string;
 }> {
   try {
-    if (!openai.apiKey) {
-      throw new Error("OpenAI API key is not configured");
-    }
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are a healthcare assistant AI for a hospital onboarding system. 
-          Analyze patient queries and provide helpful responses with appropriate urgency levels.
-          
-          Return JSON with:
-          - intent: main purpose of the query
-          - suggestions: array of helpful suggestions
-          - urgency: low/medium/high based on medical context
-          - response: helpful response text
-          
-          Consider medical urgency, hospital procedures, and patient comfort.`
-        },
-        {
-          role: "user",
-          content: queryText
-        },
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 600,
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = await llm.chatJSON([
+      {
+        role: "system",
+        content: `You are a healthcare assistant AI for a hospital onboarding system. 
+        Analyze patient queries and provide helpful responses with appropriate urgency levels.
+        
+        Return JSON with:
+        - intent: main purpose of the query
+        - suggestions: array of helpful suggestions
+        - urgency: low/medium/high based on medical context
+        - response: helpful response text
+        
+        Consider medical urgency, hospital procedures, and patient comfort.`
+      },
+      {
+        role: "user",
+        content: queryText
+      },
+    ], { task: "patient_query", maxTokens: 600 });
     
     return {
       intent: result.intent || "general_inquiry",
@@ -274,34 +259,23 @@ export async function generateHealthRecommendations(
   priorityLevel: 'low' | 'medium' | 'high';
 }> {
   try {
-    if (!openai.apiKey) {
-      throw new Error("OpenAI API key is not configured");
-    }
-
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: `You are a health AI assistant providing personalized health recommendations.
-          Consider the patient's medical history, age, and current health status.
-          Return JSON with:
-          - recommendations: array of health recommendations
-          - lifestyleTips: array of lifestyle improvement tips
-          - preventiveMeasures: array of preventive health measures
-          - priorityLevel: low/medium/high priority for health improvements`
-        },
-        {
-          role: "user",
-          content: `Patient data: ${JSON.stringify(patientData)}
-          ${currentHealthStatus ? `Current health status: ${currentHealthStatus}` : ''}`
-        },
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 800,
-    });
-
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const result = await llm.chatJSON([
+      {
+        role: "system",
+        content: `You are a health AI assistant providing personalized health recommendations.
+        Consider the patient's medical history, age, and current health status.
+        Return JSON with:
+        - recommendations: array of health recommendations
+        - lifestyleTips: array of lifestyle improvement tips
+        - preventiveMeasures: array of preventive health measures
+        - priorityLevel: low/medium/high priority for health improvements`
+      },
+      {
+        role: "user",
+        content: `Patient data: ${JSON.stringify(patientData)}
+        ${currentHealthStatus ? `Current health status: ${currentHealthStatus}` : ''}`
+      },
+    ], { task: "health_recommendations", maxTokens: 800 });
     
     return {
       recommendations: Array.isArray(result.recommendations) ? result.recommendations : [],
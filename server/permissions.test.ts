@@ -0,0 +1,101 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { enforceRoutePolicy, redactPatient, redactPatientChanges, type Role } from "./permissions";
+import type { IPatient, IPatientChange } from "./db";
+
+const patientId = "64b7f0c2a1b2c3d4e5f60718";
+
+// Runs the policy for one request and reports the status it ended with, or "next" when it passed
+async function check(method: string, path: string, role?: Role | "staff"): Promise<number | "next"> {
+  const req = {
+    method,
+    baseUrl: "",
+    path,
+    originalUrl: path,
+    user: role ? { username: `test-${role}`, role } : undefined,
+    isAuthenticated: () => role !== undefined,
+  } as unknown as Request;
+  let outcome: number | "next" = "next";
+  const res = {
+    status(code: number) {
+      outcome = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+  } as unknown as Response;
+  await enforceRoutePolicy(req, res, () => {});
+  return outcome;
+}
+
+test("public routes need no login", async () => {
+  assert.equal(await check("GET", "/api/health"), "next");
+  assert.equal(await check("POST", "/api/emergency/ambulance"), "next");
+  assert.equal(await check("GET", "/api/places"), "next");
+});
+
+test("other routes need a login", async () => {
+  assert.equal(await check("GET", "/api/patients"), 401);
+  assert.equal(await check("POST", "/api/emergency/intake"), 401);
+  assert.equal(await check("GET", `/api/patients/${patientId}/vitals`), 401);
+});
+
+test("each role reaches only the routes listed for it", async () => {
+  assert.equal(await check("GET", `/api/patients/${patientId}/vitals`, "nurse"), "next");
+  assert.equal(await check("GET", `/api/patients/${patientId}/vitals`, "billing"), 403);
+  assert.equal(await check("POST", "/api/insurance/analyze", "billing"), "next");
+  assert.equal(await check("POST", "/api/insurance/analyze", "physician"), 403);
+  assert.equal(await check("POST", "/api/users", "registrar"), 403);
+  assert.equal(await check("POST", "/api/users", "admin"), "next");
+  // A trailing slash matches the same policy
+  assert.equal(await check("GET", `/api/patients/${patientId}/`, "billing"), "next");
+});
+
+test("routes missing from the table are denied, even to admins", async () => {
+  assert.equal(await check("DELETE", `/api/patients/${patientId}`, "admin"), 403);
+  assert.equal(await check("GET", "/api/not-a-route", "admin"), 403);
+});
+
+test("the retired staff role is denied everywhere", async () => {
+  assert.equal(await check("GET", "/api/patients", "staff"), 403);
+});
+
+test("a denial is logged against the patient it concerned", async () => {
+  await check("GET", `/api/patients/${patientId}/vitals`, "billing");
+  const [denial] = await storage.getPatientActivities(patientId);
+  assert.equal(denial?.action, "access_denied");
+  assert.match(denial.description, /test-billing \(billing\) denied GET/);
+});
+
+test("billing sees patients without their clinical record", () => {
+  const patient = {
+    firstName: "Asha",
+    insuranceProvider: "Acme",
+    allergies: [{ substance: "Penicillin" }],
+    medications: [{ name: "Warfarin" }],
+    medicalHistory: { surgeries: "Appendectomy" },
+  } as Partial<IPatient>;
+
+  const billing = redactPatient(patient, "billing");
+  assert.equal(billing.firstName, "Asha");
+  assert.equal(billing.insuranceProvider, "Acme");
+  assert.equal(billing.allergies, undefined);
+  assert.equal(billing.medications, undefined);
+  assert.equal(billing.medicalHistory, undefined);
+  assert.deepEqual(redactPatient(patient, "nurse"), patient);
+});
+
+test("billing sees change history without clinical fields", () => {
+  const history = [
+    { changes: [{ field: "medicalHistory.surgeries", oldValue: "", newValue: "Appendectomy" }] },
+    { changes: [{ field: "allergies", oldValue: [], newValue: [] }, { field: "phone", oldValue: "1", newValue: "2" }] },
+  ] as unknown as IPatientChange[];
+
+  const billing = redactPatientChanges(history, "billing");
+  assert.equal(billing.length, 1);
+  assert.deepEqual(billing[0].changes.map(change => change.field), ["phone"]);
+  assert.equal(redactPatientChanges(history, "physician"), history);
+});
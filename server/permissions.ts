@@ -0,0 +1,218 @@
+import type { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import { storage } from "./storage";
+import { type IPatient, type IPatientChange } from "./db";
+
+export const ROLES = ["registrar", "nurse", "physician", "billing", "admin"] as const;
+export type Role = typeof ROLES[number];
+
+const ALL_STAFF: Role[] = [...ROLES];
+const CLINICAL: Role[] = ["registrar", "nurse", "physician", "admin"];
+
+interface RoutePolicy {
+  method: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+  path: string;
+  // "public" routes are reachable without logging in
+  roles: Role[] | "public";
+}
+
+/**
+ * Who may call each API route. Any /api route that is not listed here is
+ * denied, so new routes must be added to this table to become reachable.
+ */
+export const routePolicies: RoutePolicy[] = [
+  // Staff accounts
+  { method: "GET", path: "/api/users", roles: ["admin"] },
+  { method: "POST", path: "/api/users", roles: ["admin"] },
+
+  // Dashboard and activity log
+  { method: "GET", path: "/api/stats", roles: ALL_STAFF },
+  { method: "GET", path: "/api/activities", roles: ALL_STAFF },
+  { method: "GET", path: "/api/events", roles: ALL_STAFF },
+
+  // Patient records
+  { method: "GET", path: "/api/patients", roles: ALL_STAFF },
+  { method: "GET", path: "/api/patients/:id", roles: ALL_STAFF },
+  { method: "POST", path: "/api/patients", roles: CLINICAL },
+  { method: "PATCH", path: "/api/patients/:id", roles: CLINICAL },
+  { method: "POST", path: "/api/patients/:id/complete", roles: ["registrar", "nurse", "admin"] },
+  { method: "POST", path: "/api/patients/:id/discharge", roles: ["registrar", "nurse", "physician", "admin"] },
+  { method: "GET", path: "/api/patients/:id/directions", roles: ALL_STAFF },
+  { method: "GET", path: "/api/patients/:id/history", roles: ALL_STAFF },
+  { method: "GET", path: "/api/patients/:id/activities", roles: ALL_STAFF },
+  { method: "GET", path: "/api/patients/:id/interactions", roles: CLINICAL },
+  { method: "GET", path: "/api/patients/:id/vitals", roles: CLINICAL },
+  { method: "POST", path: "/api/patients/:id/vitals", roles: CLINICAL },
+
+  // Bed inventory
+  { method: "GET", path: "/api/beds", roles: ALL_STAFF },
+  { method: "POST", path: "/api/beds", roles: ["admin"] },
+  { method: "PATCH", path: "/api/beds/:id", roles: ["nurse", "admin"] },
+
+  // Coded terms for allergies, medications and conditions
+  { method: "GET", path: "/api/terminology/search", roles: CLINICAL },
+
+  // Documents
+  { method: "POST", path: "/api/documents/upload", roles: CLINICAL },
+  { method: "POST", path: "/api/upload", roles: CLINICAL },
+  { method: "GET", path: "/api/patients/:patientId/documents", roles: CLINICAL },
+  { method: "POST", path: "/api/patients/:patientId/documents", roles: CLINICAL },
+  { method: "GET", path: "/api/documents/:id/text", roles: CLINICAL },
+  { method: "POST", path: "/api/documents/:id/extract", roles: CLINICAL },
+
+  // Document agents
+  { method: "POST", path: "/api/agents/identity", roles: CLINICAL },
+  { method: "POST", path: "/api/agents/referral", roles: CLINICAL },
+  { method: "POST", path: "/api/agents/analyze", roles: CLINICAL },
+  { method: "POST", path: "/api/agents/verify", roles: CLINICAL },
+
+  // Insurance
+  { method: "POST", path: "/api/insurance/analyze", roles: ["registrar", "billing", "admin"] },
+
+  // Emergency
+  { method: "POST", path: "/api/emergency/intake", roles: CLINICAL },
+  { method: "POST", path: "/api/dispatches/:id/status", roles: CLINICAL },
+  { method: "GET", path: "/api/ambulances", roles: CLINICAL },
+  { method: "POST", path: "/api/ambulances", roles: ["admin"] },
+  { method: "PATCH", path: "/api/ambulances/:id", roles: ["admin"] },
+  { method: "POST", path: "/api/ambulances/:id/position", roles: CLINICAL },
+  { method: "POST", path: "/api/patients/:id/merge-identity", roles: ["registrar", "nurse", "admin"] },
+  { method: "GET", path: "/api/emergency-units", roles: ALL_STAFF },
+  { method: "GET", path: "/api/routing-rules", roles: ["admin"] },
+  { method: "POST", path: "/api/routing-rules", roles: ["admin"] },
+  { method: "PUT", path: "/api/routing-rules/:id", roles: ["admin"] },
+  { method: "DELETE", path: "/api/routing-rules/:id", roles: ["admin"] },
+  { method: "POST", path: "/api/routing-rules/evaluate", roles: CLINICAL },
+  { method: "GET", path: "/api/passages", roles: ALL_STAFF },
+  { method: "POST", path: "/api/places", roles: ["admin"] },
+  { method: "PUT", path: "/api/places/:id", roles: ["admin"] },
+  { method: "DELETE", path: "/api/places/:id", roles: ["admin"] },
+  { method: "POST", path: "/api/passages", roles: ["admin"] },
+  { method: "PUT", path: "/api/passages/:id", roles: ["admin"] },
+  { method: "DELETE", path: "/api/passages/:id", roles: ["admin"] },
+
+  // Patient-facing emergency request, rate limited in routes.ts, and its tracker
+  { method: "POST", path: "/api/emergency/ambulance", roles: "public" },
+  { method: "GET", path: "/api/dispatches/:id", roles: "public" },
+
+  // Patient-facing assistant and wayfinding
+  { method: "GET", path: "/api/navigation", roles: "public" },
+  { method: "GET", path: "/api/navigation/directions", roles: "public" },
+  { method: "GET", path: "/api/places", roles: "public" },
+  { method: "POST", path: "/api/chat", roles: "public" },
+  { method: "POST", path: "/api/symptoms/analyze", roles: "public" },
+  { method: "POST", path: "/api/medical/advice", roles: "public" },
+  { method: "POST", path: "/api/health/recommendations", roles: "public" },
+  { method: "GET", path: "/api/test", roles: "public" },
+  { method: "GET", path: "/api/health", roles: "public" },
+];
+
+/**
+ * Patient fields hidden from roles that have no clinical need to see them
+ */
+export const restrictedPatientFields: Partial<Record<Role, (keyof IPatient)[]>> = {
+  billing: ["medicalHistory", "allergies", "medications"],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+export function redactPatient<T extends Partial<IPatient>>(patient: T, role: string | undefined): T {
+  const hidden = isRole(role) ? restrictedPatientFields[role] : undefined;
+  if (!hidden) {
+    return patient;
+  }
+  const redacted = { ...patient };
+  for (const field of hidden) {
+    delete redacted[field];
+  }
+  return redacted;
+}
+
+/**
+ * Change history with the same fields hidden as redactPatient. Entries left
+ * with no visible changes are dropped.
+ */
+export function redactPatientChanges(history: IPatientChange[], role: string | undefined): IPatientChange[] {
+  const hidden: string[] | undefined = isRole(role) ? restrictedPatientFields[role] : undefined;
+  if (!hidden) {
+    return history;
+  }
+  return history
+    .map(entry => ({ ...entry, changes: entry.changes.filter(change => !hidden.includes(change.field.split(".")[0])) }))
+    .filter(entry => entry.changes.length > 0);
+}
+
+interface CompiledPolicy extends RoutePolicy {
+  pattern: RegExp;
+  params: string[];
+}
+
+function compilePolicy(policy: RoutePolicy): CompiledPolicy {
+  const params: string[] = [];
+  const source = policy.path
+    .split("/")
+    .map((segment) => {
+      if (segment.startsWith(":")) {
+        params.push(segment.slice(1));
+        return "([^/]+)";
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("/");
+  return { ...policy, pattern: new RegExp(`^${source}/?$`), params };
+}
+
+const compiledPolicies = routePolicies.map(compilePolicy);
+
+function findPolicy(method: string, path: string) {
+  for (const policy of compiledPolicies) {
+    if (policy.method !== method) continue;
+    const match = policy.pattern.exec(path);
+    if (match) {
+      const params: Record<string, string> = {};
+      policy.params.forEach((name, i) => { params[name] = match[i + 1]; });
+      return { policy, params };
+    }
+  }
+  return undefined;
+}
+
+async function logDenial(req: Request, params: Record<string, string>) {
+  const candidate = params.id || params.patientId;
+  try {
+    await storage.createActivity({
+      patientId: candidate && mongoose.isValidObjectId(candidate) ? candidate : undefined,
+      action: "access_denied",
+      description: `${req.user?.username ?? "unknown"} (${req.user?.role ?? "no role"}) denied ${req.method} ${req.originalUrl}`
+    });
+  } catch (error) {
+    console.error("Failed to log access denial:", error);
+  }
+}
+
+/**
+ * Enforces routePolicies for every /api request. Must be mounted after the
+ * session middleware so req.user is populated.
+ */
+export async function enforceRoutePolicy(req: Request, res: Response, next: NextFunction) {
+  const path = req.baseUrl + req.path;
+  const method = req.method === "HEAD" ? "GET" : req.method;
+  const found = findPolicy(method, path);
+
+  if (found?.policy.roles === "public") {
+    return next();
+  }
+
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+
+  if (!found || !isRole(req.user.role) || !found.policy.roles.includes(req.user.role)) {
+    await logDenial(req, found?.params ?? {});
+    return res.status(403).json({ error: "You do not have permission to perform this action" });
+  }
+
+  next();
+}
@@ -0,0 +1,37 @@
+import type { Request, Response, NextFunction } from "express";
+
+/*
+ * Fixed-window request limits per client IP, for the few routes the public
+ * can call that cost the hospital something, such as sending an ambulance.
+ * Counts live in this process only, so each server instance limits on its own.
+ */
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+export function rateLimit({ windowMs, max, message }: { windowMs: number; max: number; message: string }) {
+  const windows = new Map<string, Window>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = req.ip ?? "unknown";
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      // Drop expired windows as new ones open, so idle clients don't pile up
+      windows.forEach((expired, ip) => {
+        if (expired.resetAt <= now) windows.delete(ip);
+      });
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+
+    window.count++;
+    if (window.count > max) {
+      res.set("Retry-After", String(Math.ceil((window.resetAt - now) / 1000)));
+      return res.status(429).json({ error: message });
+    }
+    next();
+  };
+}
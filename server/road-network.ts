@@ -0,0 +1,205 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+
+/*
+ * Optional road graph for ambulance routing. ROAD_GRAPH_FILE points at a JSON
+ * file of the form
+ *
+ *   { "nodes": [{ "id": "a", "latitude": 12.97, "longitude": 77.59 }, ...],
+ *     "edges": [{ "from": "a", "to": "b", "km": 1.2, "speedKmh": 30, "oneway": false }, ...] }
+ *
+ * where km defaults to the straight-line length of the edge and speedKmh to
+ * the average ambulance speed. Without a file, routing falls back to
+ * great-circle distance.
+ */
+
+// Node ids may be written as numbers, as OSM exports do
+const nodeId = z.union([z.string(), z.number()]).transform(String);
+
+const roadGraphSchema = z.object({
+  nodes: z.array(z.object({
+    id: nodeId,
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+  })),
+  edges: z.array(z.object({
+    from: nodeId,
+    to: nodeId,
+    km: z.number().positive().optional(),
+    speedKmh: z.number().positive().optional(),
+    oneway: z.boolean().default(false),
+  })),
+});
+
+interface Point {
+  latitude: number;
+  longitude: number;
+}
+
+interface GraphNode extends Point {
+  id: string;
+}
+
+interface GraphEdge {
+  to: number;
+  km: number;
+  minutes: number;
+}
+
+export interface RoadGraph {
+  nodes: GraphNode[];
+  adjacency: GraphEdge[][];
+}
+
+export interface RoadRoute {
+  distanceKm: number;
+  minutes: number;
+}
+
+/**
+ * Great-circle distance between two points in kilometres (haversine formula)
+ */
+export function distanceKm(from: Point, to: Point): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Builds the adjacency lists for a graph in the ROAD_GRAPH_FILE format;
+ * throws a ZodError when the data isn't in that format
+ */
+export function buildRoadGraph(data: unknown, defaultSpeedKmh: number): RoadGraph {
+  const graph = roadGraphSchema.parse(data);
+  const nodes: GraphNode[] = graph.nodes;
+  const index = new Map(nodes.map((node, i) => [node.id, i]));
+  const adjacency: GraphEdge[][] = nodes.map(() => []);
+
+  for (const edge of graph.edges) {
+    const from = index.get(edge.from);
+    const to = index.get(edge.to);
+    if (from === undefined || to === undefined) {
+      throw new Error(`Road graph edge ${edge.from} -> ${edge.to} references an unknown node`);
+    }
+    const km = edge.km ?? distanceKm(nodes[from], nodes[to]);
+    const minutes = km / (edge.speedKmh ?? defaultSpeedKmh) * 60;
+    adjacency[from].push({ to, km, minutes });
+    if (!edge.oneway) {
+      adjacency[to].push({ to: from, km, minutes });
+    }
+  }
+
+  return { nodes, adjacency };
+}
+
+function nearestNode(graph: RoadGraph, point: Point): { index: number; km: number } {
+  let best = { index: -1, km: Infinity };
+  graph.nodes.forEach((node, index) => {
+    const km = distanceKm(point, node);
+    if (km < best.km) best = { index, km };
+  });
+  return best;
+}
+
+// Dijkstra on travel time with a binary heap of [minutes, node] pairs
+function shortestPath(graph: RoadGraph, source: number, target: number): RoadRoute | undefined {
+  const minutes = new Array(graph.nodes.length).fill(Infinity);
+  const km = new Array(graph.nodes.length).fill(Infinity);
+  const heap: [number, number][] = [[0, source]];
+  minutes[source] = 0;
+  km[source] = 0;
+
+  const push = (item: [number, number]) => {
+    heap.push(item);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+  const pop = (): [number, number] => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  while (heap.length > 0) {
+    const [time, node] = pop();
+    if (node === target) {
+      return { distanceKm: km[node], minutes: time };
+    }
+    if (time > minutes[node]) continue;
+    for (const edge of graph.adjacency[node]) {
+      const next = time + edge.minutes;
+      if (next < minutes[edge.to]) {
+        minutes[edge.to] = next;
+        km[edge.to] = km[node] + edge.km;
+        push([next, edge.to]);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Fastest route between two points over the road graph. The legs from each
+ * point to its nearest graph node are counted as straight lines. Returns
+ * undefined when the two points are not connected.
+ */
+export function roadRoute(graph: RoadGraph, from: Point, to: Point, defaultSpeedKmh: number): RoadRoute | undefined {
+  const start = nearestNode(graph, from);
+  const end = nearestNode(graph, to);
+  if (start.index < 0 || end.index < 0) {
+    return undefined;
+  }
+
+  const path = shortestPath(graph, start.index, end.index);
+  if (!path) {
+    return undefined;
+  }
+  const legsKm = start.km + end.km;
+  return {
+    distanceKm: path.distanceKm + legsKm,
+    minutes: path.minutes + legsKm / defaultSpeedKmh * 60,
+  };
+}
+
+let loaded: RoadGraph | null | undefined;
+
+/**
+ * The graph from ROAD_GRAPH_FILE, read once. Null when unset or unreadable.
+ */
+export function getRoadGraph(defaultSpeedKmh: number): RoadGraph | null {
+  if (loaded === undefined) {
+    loaded = null;
+    const file = process.env.ROAD_GRAPH_FILE;
+    if (file) {
+      try {
+        loaded = buildRoadGraph(JSON.parse(readFileSync(file, "utf8")), defaultSpeedKmh);
+        console.log(`Loaded road graph with ${loaded.nodes.length} nodes from ${file}`);
+      } catch (error) {
+        console.error(`Failed to load road graph from ${file}, using straight-line distances:`, error);
+      }
+    }
+  }
+  return loaded;
+}
@@ -1,6 +1,9 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, usingMemoryStorage, InvalidCursorError, NoBedAvailableError, type ChangeAuthor } from "./storage";
+import { getDatabaseStatus } from "./db";
+import { setupAuth, hashPassword, toPublicUser } from "./auth";
+import { ROLES, enforceRoutePolicy, redactPatient, redactPatientChanges } from "./permissions";
 import { 
   analyzeSymptoms, 
   getMedicalAdvice, 
@@ -8,34 +11,246 @@ import {
   analyzePatientQuery,
   generateHealthRecommendations 
 } from "./openai";
+import {
+  identityVerifier,
+  referralParser,
+  documentAnalyzer,
+  multiAgentVerification
+} from "./agents";
+import { extractAndStoreDocumentText } from "./extraction";
+import { streamEvents } from "./events";
+import { rateLimit } from "./rate-limit";
+import { searchTerminology } from "./terminology";
+import { checkInteractions } from "./interactions";
+import { consciousnessFromGcs, consciousnessLevels, triage } from "./triage";
+import { emergencyUnits, routeEmergency, unknownUnitErrors, type EmergencyUnit } from "./routing-rules";
+import { admissionUnitName, generalAdmissionUnit, isAdmissionUnit } from "./beds";
+import { defaultOriginKey, loadWayfinding, passageErrors } from "./wayfinding";
+import { crossedThreshold, earlyWarningResponses, earlyWarningScore } from "./early-warning";
+import {
+  assignQueuedDispatch,
+  getDispatchStatus,
+  InvalidDispatchTransitionError,
+  requestDispatch,
+  transitionDispatch,
+  updateAmbulancePosition
+} from "./dispatch";
+import { bedStatusValues, type IDocument, type IPatient } from "./db";
 import multer from "multer";
 import { z } from "zod";
+import {
+  codeSystems,
+  identityMergeSchema,
+  insuranceStatusValues,
+  patientSchema,
+  patientUpdateSchema,
+  sexValues,
+  vitalSignsSchema,
+  type PatientUpdate,
+  type VitalSigns
+} from "../shared/schema";
+import { acuitySchema, emergencyTypeValues, routingInputSchema, routingRuleSchema } from "../shared/routing";
+import { floorName, formatWalkTime, passageSchema, placeSchema } from "../shared/wayfinding";
 
 // Validation schemas
-const patientSchema = z.object({
-  firstName: z.string().min(1, "First name is required"),
-  lastName: z.string().min(1, "Last name is required"),
-  dateOfBirth: z.string().min(1, "Date of birth is required"),
-  phone: z.string().min(1, "Phone is required"), // Changed from min(10) to min(1) for emergency patients
-  address: z.string().min(1, "Address is required"),
-  emergencyContactName: z.string().optional(),
-  emergencyContactRelationship: z.string().optional(),
-  emergencyContactPhone: z.string().optional(),
-  insuranceProvider: z.string().optional(),
-  insurancePolicyNumber: z.string().optional(),
-  insuranceGroupNumber: z.string().optional(),
-  insuranceStatus: z.string().optional(),
-  medicalHistory: z.any().optional(),
-  allergies: z.string().optional(),
-  medications: z.string().optional(),
-  onboardingStep: z.number().optional(),
-  isCompleted: z.boolean().optional(),
-  isEmergency: z.boolean().optional(),
-  admissionLocation: z.string().optional(),
-  emergencyType: z.string().optional(),
+const emergencyIntakeSchema = z.object({
+  emergencyType: z.enum(emergencyTypeValues),
+  sex: z.enum(sexValues).default("unknown"),
+  // Estimated by staff; the patient's identity, and so date of birth, is not known yet
+  ageYears: z.number().int().min(0).max(130).optional(),
+  // Given by the triage nurse, otherwise worked out from the vitals
+  acuity: acuitySchema.optional(),
+  dispatchId: z.string().optional(),
+  vitals: vitalSignsSchema.optional(),
 });
 
+const completeOnboardingSchema = z.object({
+  unit: z.string().refine(isAdmissionUnit, "Unknown unit").default(generalAdmissionUnit),
+  requiresIsolation: z.boolean().default(false),
+});
+
+const bedSchema = z.object({
+  unit: z.string().refine(isAdmissionUnit, "Unknown unit"),
+  room: z.string().trim().min(1, "Room is required"),
+  label: z.string().trim().min(1, "Bed label is required"),
+  isolation: z.boolean().default(false),
+  genderRestriction: z.enum(["male", "female"]).optional(),
+}).strict();
+
+// Occupancy changes only through admission and discharge
+const bedUpdateSchema = z.object({
+  status: z.enum(bedStatusValues).exclude(["occupied"]),
+  isolation: z.boolean(),
+  genderRestriction: z.enum(["male", "female"]).nullable(),
+}).partial().strict();
+
+const wayfindingPlaceSchema = placeSchema.refine(
+  place => place.unitId === undefined || isAdmissionUnit(place.unitId),
+  { message: "Unknown unit", path: ["unitId"] },
+);
+
+// Assignment only happens through assignAmbulance, which claims a unit first
+const dispatchStatusSchema = z.object({
+  status: z.enum(["en_route", "on_scene", "transporting", "arrived", "cancelled"]),
+});
+
+const positionSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+// The emergency page sends a null patientId when the caller isn't registered yet
+const ambulanceRequestSchema = positionSchema.extend({
+  patientId: z.string().regex(/^[0-9a-f]{24}$/i, "Invalid patient ID").nullish(),
+  emergencyType: z.string().trim().optional(),
+});
+
+const ambulanceSchema = z.object({
+  callSign: z.string().min(1, "Call sign is required"),
+  baseStation: positionSchema.extend({
+    name: z.string().min(1, "Base station name is required"),
+  }),
+});
+
+// Only availability can be set by hand; "dispatched" is managed by dispatches
+const ambulanceUpdateSchema = ambulanceSchema.partial().extend({
+  status: z.enum(["available", "offline"]).optional(),
+});
+
+type PatientUpdateField = keyof PatientUpdate;
+
+const identityFields: PatientUpdateField[] = ["firstName", "lastName", "dateOfBirth", "phone", "address", "sex"];
+const recordFields: PatientUpdateField[] = [
+  "emergencyContactName",
+  "emergencyContactRelationship",
+  "emergencyContactPhone",
+  "insuranceProvider",
+  "insurancePolicyNumber",
+  "insuranceGroupNumber",
+  "insuranceStatus",
+  "allergies",
+  "medications",
+  "medicalHistory",
+];
+
+// Which fields PATCH may change at each stage of onboarding, and why the rest can't be
+const updatableFields: Record<"provisional" | "inProgress" | "completed", { fields: PatientUpdateField[]; locked: string }> = {
+  provisional: {
+    fields: [...recordFields, "onboardingStep"],
+    locked: "Confirm this patient's identity through merge-identity instead",
+  },
+  inProgress: {
+    fields: [...identityFields, ...recordFields, "onboardingStep"],
+    locked: "This field cannot be changed",
+  },
+  completed: {
+    fields: [...identityFields, ...recordFields],
+    locked: "Onboarding is already complete",
+  },
+};
+
+// One message per invalid field, keyed by its path ("medicalHistory.conditions")
+function fieldErrors(error: z.ZodError): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const issue of error.issues) {
+    if (issue.code === "unrecognized_keys") {
+      for (const key of issue.keys) {
+        fields[[...issue.path, key].join(".")] = "Unknown or read-only field";
+      }
+      continue;
+    }
+    const path = issue.path.join(".") || "body";
+    fields[path] = fields[path] || issue.message;
+  }
+  return fields;
+}
+
+// Fields of a valid update that the patient's onboarding stage does not allow
+function lockedFieldErrors(patient: IPatient, updates: PatientUpdate): Record<string, string> {
+  const stage = patient.isProvisional ? "provisional" : patient.isCompleted ? "completed" : "inProgress";
+  const { fields, locked } = updatableFields[stage];
+  const errors: Record<string, string> = {};
+
+  for (const field of Object.keys(updates) as PatientUpdateField[]) {
+    if (!fields.includes(field)) {
+      errors[field] = locked;
+    }
+  }
+  if (!errors.onboardingStep && updates.onboardingStep !== undefined && updates.onboardingStep < patient.onboardingStep) {
+    errors.onboardingStep = `Onboarding cannot go back from step ${patient.onboardingStep}`;
+  }
+  return errors;
+}
+
+// Anyone can ask for an ambulance, so each caller gets a few requests per window
+const ambulanceRequestLimit = rateLimit({
+  windowMs: 10 * 60 * 1000,
+  max: parseInt(process.env.AMBULANCE_REQUEST_LIMIT || "3", 10),
+  message: "Too many ambulance requests from this device. Please call emergency services directly.",
+});
+
+// Query string booleans arrive as "true"/"false"
+const queryBoolean = z.enum(["true", "false"]).transform(value => value === "true");
+
+const patientListQuerySchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  isEmergency: queryBoolean.optional(),
+  isCompleted: queryBoolean.optional(),
+  onboardingStep: z.coerce.number().int().min(1).max(4).optional(),
+  insuranceStatus: z.enum(insuranceStatusValues).optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  sort: z.enum(["createdAt", "updatedAt", "lastName"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  cursor: z.string().optional(),
+});
 
+const terminologyQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+  // One code system or a comma-separated list; every system when omitted
+  system: z.string().optional()
+    .transform(value => value?.split(",").map(system => system.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(codeSystems)).optional()),
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+// Starting place by id or key; walk times and directions default to the main entrance
+const navigationQuerySchema = z.object({
+  from: z.string().default(defaultOriginKey),
+  stepFree: queryBoolean.default("false"),
+});
+
+const directionsQuerySchema = navigationQuerySchema.extend({
+  to: z.string().min(1),
+});
+
+const symptomAnalysisSchema = z.object({
+  symptoms: z.string({ required_error: "Symptoms description is required" }).trim().min(1, "Symptoms description is required"),
+  patientAge: z.coerce.number().min(0).max(130).optional(),
+  // Optional measurements, e.g. from a kiosk or a nurse at intake
+  vitals: z.object({
+    heartRate: z.number().min(0).max(300).optional(),
+    respiratoryRate: z.number().min(0).max(100).optional(),
+    oxygenSaturation: z.number().min(0).max(100).optional(),
+    systolicBP: z.number().min(0).max(300).optional(),
+    temperatureC: z.number().min(25).max(45).optional(),
+    painScore: z.number().int().min(0).max(10).optional(),
+    consciousness: z.enum(consciousnessLevels).optional(),
+  }).optional(),
+});
+
+// Merges a provisional emergency record into an existing patient instead of naming it
+const mergeTargetSchema = z.object({
+  targetPatientId: z.string().min(1, "Target patient is required"),
+}).strict();
+
+const userSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  name: z.string().min(1, "Name is required"),
+  role: z.enum(ROLES),
+});
 
 const activitySchema = z.object({
   patientId: z.string().optional(),
@@ -43,7 +258,119 @@ const activitySchema = z.object({
   description: z.string().min(1, "Description is required"),
 });
 
+// Who to credit in a patient's change history
+function changeAuthor(req: Request): ChangeAuthor | undefined {
+  return req.user ? { id: req.user._id.toString(), name: req.user.name } : undefined;
+}
+
+function noBedMessage(error: NoBedAvailableError) {
+  return `No free ${error.requiresIsolation ? "isolation " : ""}bed in ${admissionUnitName(error.unit)}`;
+}
+
+/**
+ * The first unit, in routing order, with a free bed the patient can take.
+ * Undefined when every candidate is full.
+ */
+async function admitToFirstFreeUnit(patient: IPatient, candidates: EmergencyUnit[], changedBy?: ChangeAuthor) {
+  for (const unit of candidates) {
+    try {
+      const admitted = await storage.completeOnboarding(patient._id.toString(), { unit: unit.id }, changedBy);
+      if (admitted) return { patient: admitted, unit };
+    } catch (error) {
+      if (!(error instanceof NoBedAvailableError)) throw error;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Stores a set of vitals with its NEWS2 score, logging an escalation activity
+ * when the score puts the patient in a higher risk band than their last set
+ */
+async function recordVitals(patient: IPatient, vitals: VitalSigns, recordedBy?: ChangeAuthor) {
+  const patientId = patient._id.toString();
+  const [previous] = await storage.getPatientVitals(patientId);
+  const earlyWarning = earlyWarningScore(vitals);
+  const record = await storage.recordVitals(patientId, vitals, earlyWarning, recordedBy);
+  const name = `${patient.firstName} ${patient.lastName}`;
+
+  await storage.createActivity({
+    patientId,
+    action: "vitals_recorded",
+    description: `Vital signs recorded for ${name} - NEWS2 ${earlyWarning.score} (${earlyWarning.risk} risk)`
+  });
+  if (crossedThreshold(previous?.earlyWarning.risk, earlyWarning.risk)) {
+    await storage.createActivity({
+      patientId,
+      action: "early_warning_escalation",
+      description: `NEWS2 ${earlyWarning.score} for ${name} (${earlyWarning.risk} risk) - ${earlyWarningResponses[earlyWarning.risk]}`
+    });
+  }
+  return record;
+}
+
+// ESI acuity implied by intake vitals alone, or undefined when they show nothing
+function acuityFromVitals(vitals: VitalSigns, ageYears?: number) {
+  const result = triage({
+    symptoms: "",
+    age: ageYears,
+    vitals: { ...vitals, consciousness: vitals.gcs === undefined ? undefined : consciousnessFromGcs(vitals.gcs) },
+  });
+  return result.findings.length > 0 ? result.acuity : undefined;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Staff sessions: /api/login, /api/logout, /api/user
+  setupAuth(app);
+
+  // Role-based access control, see routePolicies in ./permissions
+  app.use("/api", enforceRoutePolicy);
+
+  // List staff accounts
+  app.get("/api/users", async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  // Create a staff account
+  app.post("/api/users", async (req, res) => {
+    try {
+      const { password, ...data } = userSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(data.username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...data,
+        password: await hashPassword(password),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error creating user:", error);
+      res.status(400).json({ error: "Invalid user data" });
+    }
+  });
+
+  // Readiness probe: reports whether the database can serve requests
+  app.get("/api/health", async (req, res) => {
+    const database = usingMemoryStorage
+      ? { state: "memory", connected: true }
+      : await getDatabaseStatus();
+
+    res.status(database.connected ? 200 : 503).json({
+      status: database.connected ? "ok" : "unavailable",
+      storage: usingMemoryStorage ? "memory" : "mongodb",
+      database,
+      uptime: Math.round(process.uptime()),
+      timestamp: new Date().toISOString()
+    });
+  });
+
   // Get dashboard statistics
   app.get("/api/stats", async (req, res) => {
     try {
@@ -54,12 +381,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all patients
+  // List patients: ?search=&isEmergency=&isCompleted=&onboardingStep=&insuranceStatus=
+  // &createdFrom=&createdTo=&sort=&order=&limit=&cursor=
   app.get("/api/patients", async (req, res) => {
     try {
-      const patients = await storage.getAllPatients();
-      res.json(patients);
+      const query = patientListQuerySchema.parse(req.query);
+      const { patients, nextCursor } = await storage.queryPatients({
+        ...query,
+        // Names read A-Z by default, dates newest first
+        order: query.order || (query.sort === "lastName" ? "asc" : "desc"),
+      });
+      res.json({
+        patients: patients.map(patient => redactPatient(patient, req.user?.role)),
+        nextCursor,
+        limit: query.limit,
+      });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid patient query", details: error.errors });
+      }
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ error: error.message });
+      }
       res.status(500).json({ error: "Failed to fetch patients" });
     }
   });
@@ -78,7 +421,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!patient) {
         return res.status(404).json({ error: "Patient not found" });
       }
-      res.json(patient);
+      res.json(redactPatient(patient, req.user?.role));
     } catch (error) {
       console.error("Error getting patient:", error);
       res.status(500).json({ error: "Failed to fetch patient" });
@@ -105,18 +448,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update patient
+  // Update patient; invalid or locked fields are listed in a 422 response
   app.patch("/api/patients/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
       
       // Check if ID is valid
       if (!id || id === "undefined") {
         return res.status(400).json({ error: "Invalid patient ID" });
       }
+
+      const existing = await storage.getPatient(id);
+      if (!existing) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+
+      const parsed = patientUpdateSchema.safeParse(req.body);
+      const fields = parsed.success ? lockedFieldErrors(existing, parsed.data) : fieldErrors(parsed.error);
+      if (!parsed.success || Object.keys(fields).length > 0) {
+        return res.status(422).json({ error: "Invalid patient update", fields });
+      }
       
-      const patient = await storage.updatePatient(id, updates);
+      const patient = await storage.updatePatient(id, parsed.data, changeAuthor(req));
       
       if (!patient) {
         return res.status(404).json({ error: "Patient not found" });
@@ -136,18 +489,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Complete onboarding
+  // Complete onboarding, reserving a bed in the requested unit
   app.post("/api/patients/:id/complete", async (req, res) => {
     try {
       const { id } = req.params;
-      const { admissionLocation } = req.body;
       
       // Check if ID is valid
       if (!id || id === "undefined") {
         return res.status(400).json({ error: "Invalid patient ID" });
       }
-      
-      const patient = await storage.completeOnboarding(id, admissionLocation);
+
+      const request = completeOnboardingSchema.parse(req.body ?? {});
+      const patient = await storage.completeOnboarding(id, request, changeAuthor(req));
       
       if (!patient) {
         return res.status(404).json({ error: "Patient not found" });
@@ -157,18 +510,212 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.createActivity({
         patientId: patient._id.toString(),
         action: "onboarding_completed",
-        description: `Onboarding completed for ${patient.firstName} ${patient.lastName} - admitted to ${admissionLocation}`
+        description: `Onboarding completed for ${patient.firstName} ${patient.lastName} - admitted to ${patient.admissionLocation}`
       });
 
       res.json(patient);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid admission request", details: error.errors });
+      }
+      if (error instanceof NoBedAvailableError) {
+        return res.status(409).json({ error: `${noBedMessage(error)}. Ask the bed manager to free one or admit to another unit.`, unit: error.unit });
+      }
       console.error("Error completing onboarding:", error);
       res.status(500).json({ error: "Failed to complete onboarding" });
     }
   });
 
+  // Discharge a patient, freeing their bed
+  app.post("/api/patients/:id/discharge", async (req, res) => {
+    try {
+      // Discharge clears the location, so it is read first for the activity log
+      const before = await storage.getPatient(req.params.id);
+      const patient = before && await storage.dischargePatient(req.params.id, changeAuthor(req));
+      if (!before || !patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      await storage.createActivity({
+        patientId: patient._id.toString(),
+        action: "patient_discharged",
+        description: `${patient.firstName} ${patient.lastName} discharged from ${before.admissionLocation ?? "hospital"}`
+      });
+      res.json(patient);
+    } catch (error) {
+      console.error("Error discharging patient:", error);
+      res.status(500).json({ error: "Failed to discharge patient" });
+    }
+  });
+
+  // Directions to the unit holding the patient's bed
+  app.get("/api/patients/:id/directions", async (req, res) => {
+    try {
+      const { from, stepFree } = navigationQuerySchema.parse(req.query);
+      const patient = await storage.getPatient(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      const bed = patient.bedId ? await storage.getBed(patient.bedId.toString()) : undefined;
+      if (!bed) {
+        return res.status(404).json({ error: "Patient has no assigned bed" });
+      }
+      const wayfinding = await loadWayfinding();
+      const origin = wayfinding.place(from);
+      const destination = wayfinding.placeForUnit(bed.unit);
+      if (!origin) {
+        return res.status(404).json({ error: "Place not found" });
+      }
+      if (!destination) {
+        return res.status(404).json({ error: `${bed.unitName} is not on the floor plan` });
+      }
+      const directions = wayfinding.directions(origin, destination, { stepFree });
+      if (!directions) {
+        return res.status(404).json({ error: `No route from ${origin.name} to ${destination.name}` });
+      }
+      // End at the bed rather than the unit's entrance
+      directions.steps[directions.steps.length - 1].instruction = `Arrive at ${patient.admissionLocation ?? destination.name}`;
+      res.json(directions);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid directions query", details: error.errors });
+      }
+      console.error("Error finding patient directions:", error);
+      res.status(500).json({ error: "Failed to find directions" });
+    }
+  });
+
+  // Bed inventory, optionally for one unit
+  app.get("/api/beds", async (req, res) => {
+    try {
+      const unit = typeof req.query.unit === "string" ? req.query.unit : undefined;
+      res.json(await storage.getBeds(unit));
+    } catch (error) {
+      console.error("Error getting beds:", error);
+      res.status(500).json({ error: "Failed to fetch beds" });
+    }
+  });
+
+  app.post("/api/beds", async (req, res) => {
+    try {
+      const parsed = bedSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(422).json({ error: "Invalid bed", fields: fieldErrors(parsed.error) });
+      }
+      const existing = await storage.getBeds(parsed.data.unit);
+      if (existing.some(bed => bed.room === parsed.data.room && bed.label === parsed.data.label)) {
+        return res.status(409).json({ error: `Room ${parsed.data.room} already has a bed ${parsed.data.label}` });
+      }
+      const bed = await storage.createBed({ ...parsed.data, unitName: admissionUnitName(parsed.data.unit) });
+      res.status(201).json(bed);
+    } catch (error) {
+      console.error("Error creating bed:", error);
+      res.status(500).json({ error: "Failed to create bed" });
+    }
+  });
+
+  app.patch("/api/beds/:id", async (req, res) => {
+    try {
+      const parsed = bedUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(422).json({ error: "Invalid bed update", fields: fieldErrors(parsed.error) });
+      }
+      const bed = await storage.getBed(req.params.id);
+      if (!bed) {
+        return res.status(404).json({ error: "Bed not found" });
+      }
+      if (bed.status === "occupied" && parsed.data.status) {
+        return res.status(409).json({ error: "Bed is occupied - discharge the patient to free it" });
+      }
+      const { genderRestriction, ...updates } = parsed.data;
+      res.json(await storage.updateBed(req.params.id, {
+        ...updates,
+        ...(genderRestriction !== undefined ? { genderRestriction: genderRestriction ?? undefined } : {})
+      }));
+    } catch (error) {
+      console.error("Error updating bed:", error);
+      res.status(500).json({ error: "Failed to update bed" });
+    }
+  });
+
+  // Field-level change history of a patient record, newest first
+  app.get("/api/patients/:id/history", async (req, res) => {
+    try {
+      const patient = await storage.getPatient(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      const history = await storage.getPatientChanges(req.params.id);
+      res.json(redactPatientChanges(history, req.user?.role));
+    } catch (error) {
+      console.error("Error getting patient history:", error);
+      res.status(500).json({ error: "Failed to fetch patient history" });
+    }
+  });
+
+  // Drug-allergy and drug-drug warnings for the patient's recorded medications
+  app.get("/api/patients/:id/interactions", async (req, res) => {
+    try {
+      const patient = await storage.getPatient(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      res.json(checkInteractions(patient));
+    } catch (error) {
+      console.error("Error checking patient interactions:", error);
+      res.status(500).json({ error: "Failed to check interactions" });
+    }
+  });
+
+  // Vital signs with their NEWS2 scores, newest first
+  app.get("/api/patients/:id/vitals", async (req, res) => {
+    try {
+      const patient = await storage.getPatient(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      res.json(await storage.getPatientVitals(req.params.id));
+    } catch (error) {
+      console.error("Error getting patient vitals:", error);
+      res.status(500).json({ error: "Failed to fetch vital signs" });
+    }
+  });
+
+  app.post("/api/patients/:id/vitals", async (req, res) => {
+    try {
+      const vitals = vitalSignsSchema.parse(req.body);
+      const patient = await storage.getPatient(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      res.status(201).json(await recordVitals(patient, vitals, changeAuthor(req)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid vital signs", details: error.errors });
+      }
+      console.error("Error recording vitals:", error);
+      res.status(500).json({ error: "Failed to record vital signs" });
+    }
+  });
+
+  // Activity timeline of one patient, newest first
+  app.get("/api/patients/:id/activities", async (req, res) => {
+    try {
+      const patient = await storage.getPatient(req.params.id);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      res.json(await storage.getPatientActivities(req.params.id));
+    } catch (error) {
+      console.error("Error getting patient activities:", error);
+      res.status(500).json({ error: "Failed to fetch patient activities" });
+    }
+  });
 
 
+
+  // Live feed of activities, patient changes and ambulance status
+  app.get("/api/events", streamEvents);
+
   // Get recent activities
   app.get("/api/activities", async (req, res) => {
     try {
@@ -179,23 +726,200 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get hospital departments/navigation
+  // Typeahead over the bundled code sets
+  app.get("/api/terminology/search", (req, res) => {
+    try {
+      const { q, system, limit } = terminologyQuerySchema.parse(req.query);
+      res.json({ results: searchTerminology(q, { systems: system, limit }) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid terminology query", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to search terminology" });
+    }
+  });
+
+  // Departments with walk times from a starting place, nearest first
   app.get("/api/navigation", async (req, res) => {
     try {
-      const departments = [
-        { id: "emergency", name: "Emergency Room", icon: "fas fa-ambulance", walkTime: "2 min", floor: "Ground Floor", wing: "East" },
-        { id: "icu", name: "ICU", icon: "fas fa-heartbeat", walkTime: "5 min", floor: "Floor 3", wing: "North" },
-        { id: "radiology", name: "Radiology", icon: "fas fa-x-ray", walkTime: "8 min", floor: "Floor 2", wing: "West" },
-        { id: "surgery", name: "Surgery", icon: "fas fa-user-md", walkTime: "6 min", floor: "Floor 4", wing: "South" },
-        { id: "pharmacy", name: "Pharmacy", icon: "fas fa-pills", walkTime: "3 min", floor: "Ground Floor", wing: "Center" },
-        { id: "lab", name: "Laboratory", icon: "fas fa-flask", walkTime: "4 min", floor: "Floor 1", wing: "East" }
-      ];
+      const { from, stepFree } = navigationQuerySchema.parse(req.query);
+      const wayfinding = await loadWayfinding();
+      const origin = wayfinding.place(from);
+      if (!origin) {
+        return res.status(404).json({ error: "Place not found" });
+      }
+      const seconds = wayfinding.walkTimes(origin, { stepFree });
+      const departments = wayfinding.places
+        .filter(place => place.kind === "department")
+        .map(place => {
+          const walkSeconds = seconds.get(place._id.toString());
+          return {
+            id: place.key,
+            placeId: place._id,
+            name: place.name,
+            icon: place.icon,
+            floor: floorName(place.floor),
+            wing: place.wing,
+            unitId: place.unitId,
+            // Unset when no passage leads there
+            walkSeconds: walkSeconds === undefined ? undefined : Math.round(walkSeconds),
+            walkTime: walkSeconds === undefined ? undefined : formatWalkTime(walkSeconds),
+          };
+        })
+        .sort((a, b) => (a.walkSeconds ?? Infinity) - (b.walkSeconds ?? Infinity));
       res.json(departments);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid navigation query", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to fetch navigation data" });
     }
   });
 
+  // Turn-by-turn directions between two places, by id or key
+  app.get("/api/navigation/directions", async (req, res) => {
+    try {
+      const { from, to, stepFree } = directionsQuerySchema.parse(req.query);
+      const wayfinding = await loadWayfinding();
+      const origin = wayfinding.place(from);
+      const destination = wayfinding.place(to);
+      if (!origin || !destination) {
+        return res.status(404).json({ error: "Place not found" });
+      }
+      const directions = wayfinding.directions(origin, destination, { stepFree });
+      if (!directions) {
+        return res.status(404).json({ error: `No route from ${origin.name} to ${destination.name}` });
+      }
+      res.json(directions);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid directions query", details: error.errors });
+      }
+      console.error("Error finding directions:", error);
+      res.status(500).json({ error: "Failed to find directions" });
+    }
+  });
+
+  // Places on the floor plan, by floor and name
+  app.get("/api/places", async (req, res) => {
+    try {
+      res.json(await storage.getPlaces());
+    } catch (error) {
+      console.error("Error getting places:", error);
+      res.status(500).json({ error: "Failed to fetch places" });
+    }
+  });
+
+  app.post("/api/places", async (req, res) => {
+    try {
+      const parsed = wayfindingPlaceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(422).json({ error: "Invalid place", fields: fieldErrors(parsed.error) });
+      }
+      const existing = await storage.getPlaces();
+      if (existing.some(place => place.key === parsed.data.key)) {
+        return res.status(409).json({ error: `A place with key ${parsed.data.key} already exists` });
+      }
+      const place = await storage.createPlace({ ...parsed.data, updatedByName: req.user?.name });
+      res.status(201).json(place);
+    } catch (error) {
+      console.error("Error creating place:", error);
+      res.status(500).json({ error: "Failed to create place" });
+    }
+  });
+
+  app.put("/api/places/:id", async (req, res) => {
+    try {
+      const parsed = wayfindingPlaceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(422).json({ error: "Invalid place", fields: fieldErrors(parsed.error) });
+      }
+      const existing = await storage.getPlaces();
+      if (existing.some(place => place.key === parsed.data.key && place._id.toString() !== req.params.id)) {
+        return res.status(409).json({ error: `A place with key ${parsed.data.key} already exists` });
+      }
+      const place = await storage.updatePlace(req.params.id, { ...parsed.data, updatedByName: req.user?.name });
+      if (!place) {
+        return res.status(404).json({ error: "Place not found" });
+      }
+      res.json(place);
+    } catch (error) {
+      console.error("Error updating place:", error);
+      res.status(500).json({ error: "Failed to update place" });
+    }
+  });
+
+  app.delete("/api/places/:id", async (req, res) => {
+    try {
+      const passages = await storage.getPassages();
+      if (passages.some(passage => passage.fromId.toString() === req.params.id || passage.toId.toString() === req.params.id)) {
+        return res.status(409).json({ error: "Place still has passages - remove them first" });
+      }
+      if (!(await storage.deletePlace(req.params.id))) {
+        return res.status(404).json({ error: "Place not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting place:", error);
+      res.status(500).json({ error: "Failed to delete place" });
+    }
+  });
+
+  // Hallways, elevators and stairs joining places
+  app.get("/api/passages", async (req, res) => {
+    try {
+      res.json(await storage.getPassages());
+    } catch (error) {
+      console.error("Error getting passages:", error);
+      res.status(500).json({ error: "Failed to fetch passages" });
+    }
+  });
+
+  app.post("/api/passages", async (req, res) => {
+    try {
+      const parsed = passageSchema.safeParse(req.body);
+      const fields = parsed.success ? passageErrors(parsed.data, await storage.getPlaces()) : fieldErrors(parsed.error);
+      if (!parsed.success || Object.keys(fields).length > 0) {
+        return res.status(422).json({ error: "Invalid passage", fields });
+      }
+      const passage = await storage.createPassage({ ...parsed.data, updatedByName: req.user?.name });
+      res.status(201).json(passage);
+    } catch (error) {
+      console.error("Error creating passage:", error);
+      res.status(500).json({ error: "Failed to create passage" });
+    }
+  });
+
+  app.put("/api/passages/:id", async (req, res) => {
+    try {
+      const parsed = passageSchema.safeParse(req.body);
+      const fields = parsed.success ? passageErrors(parsed.data, await storage.getPlaces()) : fieldErrors(parsed.error);
+      if (!parsed.success || Object.keys(fields).length > 0) {
+        return res.status(422).json({ error: "Invalid passage", fields });
+      }
+      const passage = await storage.updatePassage(req.params.id, { ...parsed.data, updatedByName: req.user?.name });
+      if (!passage) {
+        return res.status(404).json({ error: "Passage not found" });
+      }
+      res.json(passage);
+    } catch (error) {
+      console.error("Error updating passage:", error);
+      res.status(500).json({ error: "Failed to update passage" });
+    }
+  });
+
+  app.delete("/api/passages/:id", async (req, res) => {
+    try {
+      if (!(await storage.deletePassage(req.params.id))) {
+        return res.status(404).json({ error: "Passage not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting passage:", error);
+      res.status(500).json({ error: "Failed to delete passage" });
+    }
+  });
+
   // Chat endpoint for patient support
   app.post("/api/chat", async (req, res) => {
     try {
@@ -226,15 +950,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Symptom analysis endpoint
   app.post("/api/symptoms/analyze", async (req, res) => {
     try {
-      const { symptoms, patientAge } = req.body;
-      
-      if (!symptoms || typeof symptoms !== 'string') {
-        return res.status(400).json({ error: "Symptoms description is required" });
-      }
-      
-      const analysis = await analyzeSymptoms(symptoms, patientAge);
+      const { symptoms, patientAge, vitals } = symptomAnalysisSchema.parse(req.body);
+      const analysis = await analyzeSymptoms(symptoms, patientAge, vitals);
       res.json(analysis);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid symptom details", details: error.errors });
+      }
       console.error("Symptom analysis error:", error);
       res.status(500).json({ error: "Failed to analyze symptoms" });
     }
@@ -291,50 +1013,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Ambulance arrangement endpoint
-  app.post("/api/emergency/ambulance", async (req, res) => {
+  // Ambulance arrangement endpoint, open to patients and walk-ins
+  app.post("/api/emergency/ambulance", ambulanceRequestLimit, async (req, res) => {
     try {
-      const { latitude, longitude, emergencyType, patientId } = req.body;
-      
-      if (!latitude || !longitude) {
-        return res.status(400).json({ error: "Location coordinates are required" });
-      }
-
-      // Simulate ambulance dispatch
-      const ambulanceId = `AMB-${Date.now().toString(36).toUpperCase()}`;
-      const eta = Math.floor(Math.random() * 8) + 3; // 3-10 minutes
-      
-      // In a real implementation, this would:
-      // 1. Call emergency services API
-      // 2. Notify nearest ambulance
-      // 3. Send patient information to emergency services
-      // 4. Track ambulance location
-      
-      const ambulanceData = {
-        ambulanceId,
-        location: { latitude, longitude },
-        emergencyType,
-        patientId,
-        eta: `${eta} minutes`,
-        status: 'dispatched',
-        dispatchedAt: new Date().toISOString(),
-        estimatedArrival: new Date(Date.now() + eta * 60000).toISOString()
-      };
-
-      // Log the emergency dispatch
-      if (patientId) {
-        await storage.createActivity({
-          patientId,
-          action: "ambulance_dispatched",
-          description: `Emergency ambulance dispatched to coordinates ${latitude}, ${longitude} for ${emergencyType} emergency`
-        });
-      }
+      const { patientId, ...request } = ambulanceRequestSchema.parse(req.body);
+      const dispatch = await requestDispatch({ ...request, patientId: patientId ?? undefined });
+      const status = await getDispatchStatus(dispatch._id.toString());
+      const assigned = dispatch.status === "assigned";
 
       res.json({
         success: true,
-        ambulanceId,
-        eta: `${eta} minutes`,
-        message: "Ambulance dispatched successfully",
+        dispatchId: dispatch._id,
+        ambulanceId: status?.ambulance?.callSign || null,
+        status: dispatch.status,
+        eta: assigned ? `${dispatch.etaMinutes} minutes` : null,
+        estimatedArrival: dispatch.estimatedArrival,
+        distanceKm: dispatch.distanceKm,
+        message: assigned
+          ? "Ambulance dispatched successfully"
+          : "Request received - the next available ambulance will be assigned",
         instructions: [
           "Stay calm and remain at your current location",
           "Keep your phone nearby for emergency calls",
@@ -343,11 +1040,354 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ]
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid ambulance request", details: error.errors });
+      }
       console.error("Ambulance dispatch error:", error);
       res.status(500).json({ error: "Failed to dispatch ambulance" });
     }
   });
 
+  // Current state of a dispatch, polled by the emergency page; callers without
+  // a staff login see the ambulance's progress but not which patient it is for
+  app.get("/api/dispatches/:id", async (req, res) => {
+    try {
+      const status = await getDispatchStatus(req.params.id);
+      if (!status) {
+        return res.status(404).json({ error: "Dispatch not found" });
+      }
+      res.json(req.isAuthenticated() ? status : { ...status, patientId: undefined });
+    } catch (error) {
+      console.error("Error getting dispatch:", error);
+      res.status(500).json({ error: "Failed to get dispatch" });
+    }
+  });
+
+  // Crew or dispatcher moves a dispatch to its next state
+  app.post("/api/dispatches/:id/status", async (req, res) => {
+    try {
+      const { status } = dispatchStatusSchema.parse(req.body);
+      const dispatch = await transitionDispatch(req.params.id, status);
+      if (!dispatch) {
+        return res.status(404).json({ error: "Dispatch not found" });
+      }
+      res.json(await getDispatchStatus(req.params.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid dispatch status", details: error.errors });
+      }
+      if (error instanceof InvalidDispatchTransitionError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error("Error updating dispatch status:", error);
+      res.status(500).json({ error: "Failed to update dispatch status" });
+    }
+  });
+
+  // Fleet registry
+  app.get("/api/ambulances", async (req, res) => {
+    try {
+      const ambulances = await storage.getAllAmbulances();
+      res.json(ambulances);
+    } catch (error) {
+      console.error("Error getting ambulances:", error);
+      res.status(500).json({ error: "Failed to fetch ambulances" });
+    }
+  });
+
+  // Register an ambulance, parked at its base station
+  app.post("/api/ambulances", async (req, res) => {
+    try {
+      const data = ambulanceSchema.parse(req.body);
+      const existing = (await storage.getAllAmbulances()).find(a => a.callSign === data.callSign);
+      if (existing) {
+        return res.status(409).json({ error: "An ambulance with this call sign already exists" });
+      }
+
+      const ambulance = await storage.createAmbulance({
+        ...data,
+        latitude: data.baseStation.latitude,
+        longitude: data.baseStation.longitude
+      });
+      await assignQueuedDispatch();
+      res.status(201).json(await storage.getAmbulance(ambulance._id.toString()));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid ambulance data", details: error.errors });
+      }
+      console.error("Error creating ambulance:", error);
+      res.status(500).json({ error: "Failed to create ambulance" });
+    }
+  });
+
+  // Change an ambulance's base station or take it in or out of service
+  app.patch("/api/ambulances/:id", async (req, res) => {
+    try {
+      const updates = ambulanceUpdateSchema.parse(req.body);
+      const existing = await storage.getAmbulance(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Ambulance not found" });
+      }
+      if (updates.status && existing.status === "dispatched") {
+        return res.status(409).json({ error: "Ambulance is on a dispatch; finish or cancel it first" });
+      }
+
+      const ambulance = await storage.updateAmbulance(req.params.id, updates);
+      if (ambulance?.status === "available" && existing.status !== "available") {
+        await assignQueuedDispatch();
+      }
+      res.json(await storage.getAmbulance(req.params.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid ambulance data", details: error.errors });
+      }
+      console.error("Error updating ambulance:", error);
+      res.status(500).json({ error: "Failed to update ambulance" });
+    }
+  });
+
+  // Position report from an ambulance
+  app.post("/api/ambulances/:id/position", async (req, res) => {
+    try {
+      const position = positionSchema.parse(req.body);
+      const result = await updateAmbulancePosition(req.params.id, position);
+      if (!result) {
+        return res.status(404).json({ error: "Ambulance not found" });
+      }
+      res.json({
+        ambulanceId: result.ambulance._id,
+        latitude: result.ambulance.latitude,
+        longitude: result.ambulance.longitude,
+        dispatchId: result.dispatch?._id,
+        etaMinutes: result.dispatch?.etaMinutes
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid position", details: error.errors });
+      }
+      console.error("Error updating ambulance position:", error);
+      res.status(500).json({ error: "Failed to update ambulance position" });
+    }
+  });
+
+  // Emergency units that routing rules can send patients to
+  app.get("/api/emergency-units", (req, res) => {
+    res.json(Object.values(emergencyUnits));
+  });
+
+  // Emergency routing rules, in the order they are evaluated
+  app.get("/api/routing-rules", async (req, res) => {
+    try {
+      res.json(await storage.getRoutingRules());
+    } catch (error) {
+      console.error("Error getting routing rules:", error);
+      res.status(500).json({ error: "Failed to fetch routing rules" });
+    }
+  });
+
+  app.post("/api/routing-rules", async (req, res) => {
+    try {
+      const parsed = routingRuleSchema.safeParse(req.body);
+      const fields = parsed.success ? unknownUnitErrors(parsed.data) : fieldErrors(parsed.error);
+      if (!parsed.success || Object.keys(fields).length > 0) {
+        return res.status(422).json({ error: "Invalid routing rule", fields });
+      }
+      const rule = await storage.createRoutingRule({ ...parsed.data, updatedByName: req.user?.name });
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating routing rule:", error);
+      res.status(500).json({ error: "Failed to create routing rule" });
+    }
+  });
+
+  app.put("/api/routing-rules/:id", async (req, res) => {
+    try {
+      const parsed = routingRuleSchema.safeParse(req.body);
+      const fields = parsed.success ? unknownUnitErrors(parsed.data) : fieldErrors(parsed.error);
+      if (!parsed.success || Object.keys(fields).length > 0) {
+        return res.status(422).json({ error: "Invalid routing rule", fields });
+      }
+      const rule = await storage.updateRoutingRule(req.params.id, { ...parsed.data, updatedByName: req.user?.name });
+      if (!rule) {
+        return res.status(404).json({ error: "Routing rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating routing rule:", error);
+      res.status(500).json({ error: "Failed to update routing rule" });
+    }
+  });
+
+  app.delete("/api/routing-rules/:id", async (req, res) => {
+    try {
+      if (!(await storage.deleteRoutingRule(req.params.id))) {
+        return res.status(404).json({ error: "Routing rule not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting routing rule:", error);
+      res.status(500).json({ error: "Failed to delete routing rule" });
+    }
+  });
+
+  // Where an emergency would be sent under the saved rules
+  app.post("/api/routing-rules/evaluate", async (req, res) => {
+    try {
+      const input = routingInputSchema.parse(req.body);
+      res.json(await routeEmergency(input));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid routing input", details: error.errors });
+      }
+      console.error("Error evaluating routing rules:", error);
+      res.status(500).json({ error: "Failed to evaluate routing rules" });
+    }
+  });
+
+  // Register an unidentified emergency patient in one step
+  app.post("/api/emergency/intake", async (req, res) => {
+    try {
+      const intake = emergencyIntakeSchema.parse(req.body);
+      const routing = await routeEmergency({
+        emergencyType: intake.emergencyType,
+        ageYears: intake.ageYears,
+        acuity: intake.acuity ?? (intake.vitals && acuityFromVitals(intake.vitals, intake.ageYears)),
+      });
+      const dispatch = intake.dispatchId ? await getDispatchStatus(intake.dispatchId) : undefined;
+      if (intake.dispatchId && !dispatch) {
+        return res.status(404).json({ error: "Dispatch not found" });
+      }
+
+      // Placeholders satisfy the required fields until the real identity is merged in
+      const patient = await storage.createPatient({
+        firstName: intake.sex === "male" ? "John" : intake.sex === "female" ? "Jane" : "Unknown",
+        lastName: "Doe",
+        dateOfBirth: "Unknown",
+        phone: "Unknown",
+        address: "Unknown",
+        sex: intake.sex,
+        isEmergency: true,
+        isProvisional: true,
+        isCompleted: true,
+        onboardingStep: 2,
+        emergencyType: intake.emergencyType,
+        admissionLocation: routing.unit.name,
+        dispatchId: intake.dispatchId,
+        ambulanceId: dispatch?.ambulance?.callSign
+      });
+
+      // Everything after the patient is written is undone with it, so a failed
+      // intake leaves no stray "John Doe" behind for a retry to duplicate
+      let admission: Awaited<ReturnType<typeof admitToFirstFreeUnit>>;
+      let vitals: Awaited<ReturnType<typeof recordVitals>> | undefined;
+      try {
+        if (intake.dispatchId) {
+          await storage.updateDispatch(intake.dispatchId, { patientId: patient._id.toString() });
+        }
+
+        // An emergency is never turned away: with every candidate unit full it waits for a bed in the first
+        admission = await admitToFirstFreeUnit(patient, routing.candidates, changeAuthor(req));
+        const unit = admission?.unit ?? routing.unit;
+
+        await storage.createActivity({
+          patientId: patient._id.toString(),
+          action: "emergency_intake",
+          description: `Emergency intake (${intake.emergencyType}) for ${patient.firstName} Doe - sent to ${admission?.patient.admissionLocation ?? unit.name}${dispatch?.ambulance ? ` via ambulance ${dispatch.ambulance.callSign}` : ""}`
+        });
+        if (!admission) {
+          await storage.createActivity({
+            patientId: patient._id.toString(),
+            action: "bed_unavailable",
+            description: `No free bed in ${routing.candidates.map(candidate => candidate.name).join(", ")} for ${patient.firstName} Doe - waiting in ${unit.name}`
+          });
+        }
+
+        vitals = intake.vitals ? await recordVitals(patient, intake.vitals, changeAuthor(req)) : undefined;
+      } catch (error) {
+        await storage.discardPatient(patient._id.toString());
+        throw error;
+      }
+
+      res.status(201).json({
+        success: true,
+        patientId: patient._id,
+        location: admission?.unit ?? routing.unit,
+        routingRule: routing.rule,
+        patient: admission?.patient ?? patient,
+        earlyWarning: vitals?.earlyWarning
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid intake data", details: error.errors });
+      }
+      console.error("Emergency intake error:", error);
+      res.status(500).json({ error: "Failed to register emergency patient" });
+    }
+  });
+
+  // Replace the placeholder identity on a provisional emergency patient, or, given
+  // targetPatientId, fold the provisional record into the patient it turns out to be
+  app.post("/api/patients/:id/merge-identity", async (req, res) => {
+    try {
+      const merge = req.body?.targetPatientId !== undefined
+        ? mergeTargetSchema.parse(req.body)
+        : identityMergeSchema.parse(req.body);
+      const existing = await storage.getPatient(req.params.id);
+
+      if (!existing) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      if (!existing.isProvisional) {
+        return res.status(409).json({ error: "Patient identity has already been confirmed" });
+      }
+
+      if ("targetPatientId" in merge) {
+        const { targetPatientId } = merge;
+        const target = targetPatientId === req.params.id ? undefined : await storage.getPatient(targetPatientId);
+        if (!target) {
+          return res.status(404).json({ error: "Target patient not found" });
+        }
+        if (target.isProvisional) {
+          return res.status(409).json({ error: "Target patient identity has not been confirmed" });
+        }
+        if (existing.bedId && target.bedId) {
+          return res.status(409).json({ error: "Both patients hold a bed; discharge one before merging" });
+        }
+
+        const patient = await storage.mergePatients(req.params.id, targetPatientId, changeAuthor(req));
+        if (!patient) {
+          return res.status(500).json({ error: "Failed to merge patient identity" });
+        }
+        await storage.createActivity({
+          patientId: targetPatientId,
+          action: "identity_merged",
+          description: `${existing.firstName} ${existing.lastName} identified as existing patient ${target.firstName} ${target.lastName}`
+        });
+        return res.json(patient);
+      }
+
+      const patient = await storage.updatePatient(req.params.id, {
+        ...merge,
+        isProvisional: false,
+        identityMergedAt: new Date()
+      }, changeAuthor(req));
+
+      await storage.createActivity({
+        patientId: req.params.id,
+        action: "identity_merged",
+        description: `${existing.firstName} ${existing.lastName} identified as ${merge.firstName} ${merge.lastName}`
+      });
+
+      res.json(patient);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid identity data", details: error.errors });
+      }
+      console.error("Identity merge error:", error);
+      res.status(500).json({ error: "Failed to merge patient identity" });
+    }
+  });
+
   // Configure multer for file uploads - accept any file type
   const upload = multer({
     storage: multer.memoryStorage(),
@@ -387,6 +1427,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         mimeType: file.mimetype,
         verificationStatus: 'pending'
       });
+
+      // OCR can take a while, so extraction runs after the response is sent
+      void extractAndStoreDocumentText(savedDocument);
       
       // Log the document upload activity
       await storage.createActivity({
@@ -405,6 +1448,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           fileName: savedDocument.fileName,
           uploadedAt: savedDocument.uploadedAt,
           status: savedDocument.verificationStatus,
+          extractionStatus: savedDocument.extractionStatus,
           fileSize: savedDocument.fileSize
         }
       });
@@ -432,6 +1476,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           fileName: doc.fileName,
           uploadedAt: doc.uploadedAt,
           status: doc.verificationStatus,
+          extractionStatus: doc.extractionStatus,
           fileSize: doc.fileSize
         }))
       });
@@ -444,6 +1489,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Upload a medical record and extract history for the medical step to prefill
+  app.post("/api/patients/:patientId/documents", upload.single('document'), async (req, res) => {
+    try {
+      const { patientId } = req.params;
+      const documentType = req.body.documentType || "medical_record";
+      const file = req.file;
+
+      if (!file) {
+        return res.status(400).json({ success: false, error: "Document file is required" });
+      }
+
+      const patient = await storage.getPatient(patientId);
+      if (!patient) {
+        return res.status(404).json({ success: false, error: "Patient not found" });
+      }
+
+      const savedDocument = await storage.createDocument({
+        patientId,
+        documentType,
+        fileName: file.originalname,
+        fileSize: file.size,
+        fileData: file.buffer,
+        mimeType: file.mimetype,
+        verificationStatus: 'pending'
+      });
+
+      // The form is waiting on the result, so extract inline rather than in the background
+      const extracted = await extractAndStoreDocumentText(savedDocument);
+      if (extracted?.extractionStatus !== "completed" || !extracted.extractedText) {
+        return res.status(422).json({
+          success: false,
+          documentId: savedDocument._id,
+          error: "No text could be read from this document",
+          warnings: extracted?.extractionWarnings || []
+        });
+      }
+
+      const analysis = await documentAnalyzer(extracted.extractedText, documentType);
+      await storage.updateDocument(savedDocument._id.toString(), {
+        verificationStatus: analysis.verificationStatus
+      });
+
+      await storage.createActivity({
+        patientId,
+        action: "medical_record_analyzed",
+        description: `Medical history extracted from ${file.originalname}`
+      });
+
+      res.json({
+        success: analysis.success,
+        documentId: savedDocument._id,
+        documentType: analysis.documentType,
+        confidence: analysis.confidence,
+        medicalHistory: analysis.medicalHistory,
+        flags: analysis.flags,
+        warnings: extracted.extractionWarnings || []
+      });
+    } catch (error) {
+      console.error("Medical record analysis error:", error);
+      res.status(500).json({
+        success: false,
+        error: "Failed to analyze medical record"
+      });
+    }
+  });
+
+  // Get the text and page layout extracted from a document
+  app.get("/api/documents/:id/text", async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      res.json({
+        id: document._id,
+        status: document.extractionStatus,
+        method: document.extractionMethod,
+        text: document.extractedText,
+        pages: document.pageLayout || [],
+        confidence: document.extractionConfidence,
+        warnings: document.extractionWarnings || [],
+        extractedAt: document.extractedAt
+      });
+    } catch (error) {
+      console.error("Error getting document text:", error);
+      res.status(500).json({ error: "Failed to get document text" });
+    }
+  });
+
+  // Re-run text extraction, e.g. after a failure or once OCR data is installed
+  app.post("/api/documents/:id/extract", async (req, res) => {
+    try {
+      const document = await storage.getDocument(req.params.id);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const updated = await extractAndStoreDocumentText(document);
+      res.json({
+        id: document._id,
+        status: updated?.extractionStatus,
+        method: updated?.extractionMethod,
+        text: updated?.extractedText,
+        warnings: updated?.extractionWarnings || []
+      });
+    } catch (error) {
+      console.error("Document extraction error:", error);
+      res.status(500).json({ error: "Failed to extract document text" });
+    }
+  });
+
   // Simple file upload endpoint
   app.post("/api/upload", upload.single('file'), async (req, res) => {
     try {
@@ -469,6 +1626,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         verificationStatus: 'pending'
       });
 
+      void extractAndStoreDocumentText(savedDocument);
+
       res.setHeader('Content-Type', 'application/json');
       res.json({
         success: true,
@@ -514,16 +1673,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next(error);
   });
 
+  // Agents take pasted text, or the ID of an uploaded document whose
+  // extracted text is used instead
+  async function resolveDocumentText(
+    documentText: unknown,
+    documentId: unknown
+  ): Promise<{ text: string; document?: IDocument } | { status: number; error: string }> {
+    if (typeof documentText === "string" && documentText.trim()) {
+      const document = typeof documentId === "string" ? await storage.getDocument(documentId) : undefined;
+      return { text: documentText, document };
+    }
+    if (typeof documentId !== "string" || !documentId) {
+      return { status: 400, error: "Document text or document ID is required" };
+    }
+
+    const document = await storage.getDocument(documentId);
+    if (!document) {
+      return { status: 404, error: "Document not found" };
+    }
+    if (document.extractionStatus === "pending" || document.extractionStatus === "processing") {
+      return { status: 409, error: "Document text is still being extracted, try again shortly" };
+    }
+    if (document.extractionStatus !== "completed" || !document.extractedText) {
+      return { status: 422, error: "No text could be extracted from this document" };
+    }
+    return { text: document.extractedText, document };
+  }
+
   // Individual agent endpoints
   app.post("/api/agents/identity", async (req, res) => {
     try {
-      const { documentText, documentType } = req.body;
-      
-      if (!documentText || !documentType) {
-        return res.status(400).json({ error: "Document text and type are required" });
+      const { documentText, documentId } = req.body;
+      const resolved = await resolveDocumentText(documentText, documentId);
+      if ("error" in resolved) {
+        return res.status(resolved.status).json({ error: resolved.error });
+      }
+
+      const documentType = req.body.documentType || resolved.document?.documentType;
+      if (!documentType) {
+        return res.status(400).json({ error: "Document type is required" });
       }
 
-      const result = await identityVerifier(documentText, documentType);
+      const result = await identityVerifier(resolved.text, documentType);
       res.json({ success: true, ...result });
     } catch (error) {
       console.error("Identity verification error:", error);
@@ -533,13 +1724,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/agents/referral", async (req, res) => {
     try {
-      const { referralText } = req.body;
-      
-      if (!referralText) {
-        return res.status(400).json({ error: "Referral text is required" });
+      const { referralText, documentId } = req.body;
+      const resolved = await resolveDocumentText(referralText, documentId);
+      if ("error" in resolved) {
+        return res.status(resolved.status).json({ error: resolved.error });
       }
 
-      const result = await referralParser(referralText);
+      const result = await referralParser(resolved.text);
       res.json({ success: true, ...result });
     } catch (error) {
       console.error("Referral parsing error:", error);
@@ -549,20 +1740,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/agents/analyze", async (req, res) => {
     try {
-      const { documentText, documentType } = req.body;
-      
-      if (!documentText) {
-        return res.status(400).json({ error: "Document text is required" });
+      const { documentText, documentId } = req.body;
+      const resolved = await resolveDocumentText(documentText, documentId);
+      if ("error" in resolved) {
+        return res.status(resolved.status).json({ error: resolved.error });
       }
 
-      const result = await documentAnalyzer(documentText, documentType);
-      res.json({ success: true, ...result });
+      // The analyzer reports its own success flag
+      const documentType = req.body.documentType || resolved.document?.documentType;
+      const result = await documentAnalyzer(resolved.text, documentType);
+      res.json(result);
     } catch (error) {
       console.error("Document analysis error:", error);
       res.status(500).json({ error: "Failed to analyze document" });
     }
   });
 
+  // Run all agents on a stored document and record the outcome on it
+  app.post("/api/agents/verify", async (req, res) => {
+    try {
+      const { documentId, documentText, documentType, patientData } = req.body;
+
+      if (!documentId) {
+        return res.status(400).json({ error: "Document ID is required" });
+      }
+
+      const resolved = await resolveDocumentText(documentText, documentId);
+      if ("error" in resolved) {
+        return res.status(resolved.status).json({ error: resolved.error });
+      }
+      const document = resolved.document;
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const result = await multiAgentVerification(
+        resolved.text,
+        documentType || document.documentType,
+        patientData
+      );
+
+      const updatedDocument = await storage.updateDocument(documentId, {
+        verificationStatus: result.overallStatus,
+        verificationSummary: result.summary,
+        verifiedAt: new Date()
+      });
+
+      await storage.createActivity({
+        patientId: document.patientId,
+        action: "document_verified",
+        description: `Document ${document.fileName} verification: ${result.overallStatus}`
+      });
+
+      res.json({
+        success: true,
+        ...result,
+        document: updatedDocument && {
+          id: updatedDocument._id,
+          type: updatedDocument.documentType,
+          fileName: updatedDocument.fileName,
+          status: updatedDocument.verificationStatus,
+          verificationSummary: updatedDocument.verificationSummary,
+          verifiedAt: updatedDocument.verifiedAt
+        }
+      });
+    } catch (error) {
+      console.error("Multi-agent verification error:", error);
+      res.status(500).json({ error: "Failed to verify document" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { defaultRoutingRules, evaluateRoutingRules } from "./routing-rules";
+import type { IRoutingRule } from "./db";
+
+const rules = defaultRoutingRules
+  .map((rule, index) => ({ ...rule, _id: String(index), createdAt: new Date(), updatedAt: new Date() }) as IRoutingRule)
+  .sort((a, b) => a.priority - b.priority);
+
+test("an acuity-1 patient goes to the ICU whatever the emergency type", () => {
+  for (const emergencyType of ["cardiac", "trauma", "respiratory"] as const) {
+    const decision = evaluateRoutingRules(rules, { emergencyType, ageYears: 40, acuity: 1 });
+    assert.equal(decision.unit.id, "icu", emergencyType);
+  }
+});
+
+test("a full ICU falls back to the unit for the emergency type", () => {
+  const decision = evaluateRoutingRules(rules, { emergencyType: "cardiac", ageYears: 40, acuity: 1 });
+  assert.deepEqual(decision.candidates.map(unit => unit.id), ["icu", "cardiac_unit", "emergency_room"]);
+});
+
+test("less acute patients are routed by emergency type", () => {
+  assert.equal(evaluateRoutingRules(rules, { emergencyType: "cardiac", ageYears: 40, acuity: 2 }).unit.id, "cardiac_unit");
+  assert.equal(evaluateRoutingRules(rules, { emergencyType: "trauma", ageYears: 40 }).unit.id, "trauma_center");
+});
+
+test("children go to the pediatric ER even when critical", () => {
+  assert.equal(evaluateRoutingRules(rules, { emergencyType: "trauma", ageYears: 8, acuity: 1 }).unit.id, "pediatric_er");
+});
@@ -0,0 +1,152 @@
+import { storage } from "./storage";
+import type { IRoutingRule } from "./db";
+import type { RoutingInput, RoutingRuleInput } from "../shared/routing";
+import { ownEntry } from "./lookup";
+
+/*
+ * Emergency routing: the first enabled rule (lowest priority number) whose
+ * emergency types, age band and acuity all match decides the destination.
+ * A rule lists fallback units in order; every decision ends with the
+ * emergency room, which receives anything no rule matches.
+ */
+
+export interface EmergencyUnit {
+  id: string;
+  name: string;
+  floor: string;
+  wing: string;
+  icon: string;
+  directions: string;
+  estimatedTime: string;
+}
+
+export const emergencyUnits: Record<string, EmergencyUnit> = {
+  emergency_room: {
+    id: "emergency_room",
+    name: "Emergency Room",
+    floor: "Ground Floor",
+    wing: "East Wing",
+    icon: "🚨",
+    directions: "Enter through main entrance, follow red signs to Emergency Room",
+    estimatedTime: "2 minutes walk",
+  },
+  icu: {
+    id: "icu",
+    name: "Intensive Care Unit",
+    floor: "Floor 3",
+    wing: "North Wing",
+    icon: "🏥",
+    directions: "Take elevator to Floor 3, follow blue signs to ICU",
+    estimatedTime: "3 minutes walk",
+  },
+  trauma_center: {
+    id: "trauma_center",
+    name: "Trauma Center",
+    floor: "Ground Floor",
+    wing: "West Wing",
+    icon: "🚑",
+    directions: "Enter through main entrance, follow yellow signs to Trauma Center",
+    estimatedTime: "2 minutes walk",
+  },
+  cardiac_unit: {
+    id: "cardiac_unit",
+    name: "Cardiac Care Unit",
+    floor: "Floor 2",
+    wing: "East Wing",
+    icon: "❤️",
+    directions: "Take elevator to Floor 2, follow red signs to Cardiac Care Unit",
+    estimatedTime: "3 minutes walk",
+  },
+  pediatric_er: {
+    id: "pediatric_er",
+    name: "Pediatric Emergency",
+    floor: "Ground Floor",
+    wing: "South Wing",
+    icon: "👶",
+    directions: "Enter through main entrance, follow green signs to Pediatric Emergency",
+    estimatedTime: "2 minutes walk",
+  },
+};
+
+export const defaultUnitId = "emergency_room";
+
+export function emergencyUnit(id: string): EmergencyUnit | undefined {
+  return ownEntry(emergencyUnits, id);
+}
+
+// Seeded into an empty table: the type-based routing from before rules existed, plus children and resuscitation.
+// Resuscitation comes before the type rules so an acuity-1 patient reaches the ICU, falling back to their
+// type's unit when it is full; children keep going to the pediatric ER, which resuscitates them itself.
+export const defaultRoutingRules: RoutingRuleInput[] = [
+  { name: "Children", priority: 10, emergencyTypes: [], maxAgeYears: 16, unitId: "pediatric_er", fallbackUnitIds: [], enabled: true },
+  { name: "Pediatric emergencies", priority: 20, emergencyTypes: ["pediatric"], unitId: "pediatric_er", fallbackUnitIds: [], enabled: true },
+  { name: "Cardiac resuscitation", priority: 22, emergencyTypes: ["cardiac"], maxAcuity: 1, unitId: "icu", fallbackUnitIds: ["cardiac_unit"], enabled: true },
+  { name: "Trauma resuscitation", priority: 24, emergencyTypes: ["trauma"], maxAcuity: 1, unitId: "icu", fallbackUnitIds: ["trauma_center"], enabled: true },
+  { name: "Resuscitation", priority: 26, emergencyTypes: [], maxAcuity: 1, unitId: "icu", fallbackUnitIds: [], enabled: true },
+  { name: "Cardiac", priority: 30, emergencyTypes: ["cardiac"], unitId: "cardiac_unit", fallbackUnitIds: ["icu"], enabled: true },
+  { name: "Trauma", priority: 40, emergencyTypes: ["trauma"], unitId: "trauma_center", fallbackUnitIds: [], enabled: true },
+];
+
+export interface RoutingDecision {
+  unit: EmergencyUnit;
+  // Unset when no rule matched and the default unit was used
+  rule?: { id: string; name: string };
+  // The destination followed by its fallbacks, in the order to try them
+  candidates: EmergencyUnit[];
+}
+
+export function ruleMatches(rule: RoutingRuleInput, input: RoutingInput): boolean {
+  if (!rule.enabled) return false;
+  if (rule.emergencyTypes.length > 0 && !rule.emergencyTypes.includes(input.emergencyType)) return false;
+  if (rule.minAgeYears !== undefined && (input.ageYears === undefined || input.ageYears < rule.minAgeYears)) return false;
+  if (rule.maxAgeYears !== undefined && (input.ageYears === undefined || input.ageYears >= rule.maxAgeYears)) return false;
+  if (rule.maxAcuity !== undefined && (input.acuity === undefined || input.acuity > rule.maxAcuity)) return false;
+  return true;
+}
+
+export function evaluateRoutingRules(rules: IRoutingRule[], input: RoutingInput): RoutingDecision {
+  const rule = rules.find(candidate => ruleMatches(candidate, input));
+  const unitIds = rule ? [rule.unitId, ...rule.fallbackUnitIds, defaultUnitId] : [defaultUnitId];
+  const candidates = Array.from(new Set(unitIds))
+    .map(id => emergencyUnit(id))
+    .filter((unit): unit is EmergencyUnit => unit !== undefined);
+  return {
+    unit: candidates[0],
+    rule: rule && { id: rule._id.toString(), name: rule.name },
+    candidates,
+  };
+}
+
+export async function routeEmergency(input: RoutingInput): Promise<RoutingDecision> {
+  return evaluateRoutingRules(await storage.getRoutingRules(), input);
+}
+
+// Unit fields of a rule that name no known unit, keyed like fieldErrors in routes.ts
+export function unknownUnitErrors(rule: RoutingRuleInput): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!emergencyUnit(rule.unitId)) {
+    errors.unitId = `Unknown unit "${rule.unitId}"`;
+  }
+  rule.fallbackUnitIds.forEach((id, index) => {
+    if (!emergencyUnit(id)) {
+      errors[`fallbackUnitIds.${index}`] = `Unknown unit "${id}"`;
+    }
+  });
+  return errors;
+}
+
+/**
+ * Creates the default rules when there are none, so a fresh install routes
+ * the way it always has. An admin who deletes every rule gets them back on
+ * the next restart; disabling them is how to turn routing off.
+ */
+export async function seedRoutingRules() {
+  const existing = await storage.getRoutingRules();
+  if (existing.length > 0) {
+    return;
+  }
+  for (const rule of defaultRoutingRules) {
+    await storage.createRoutingRule(rule);
+  }
+  console.log(`Created ${defaultRoutingRules.length} default emergency routing rules`);
+}
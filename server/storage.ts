@@ -1,30 +1,270 @@
+import mongoose from "mongoose";
 import { 
   Patient, 
   Activity, 
   User,
   Document,
+  Ambulance,
+  Dispatch,
+  PatientChange,
+  VitalSignsRecord,
+  RoutingRule,
+  Bed,
+  Place,
+  Passage,
+  patientSearchFields,
+  refreshPatientSearchKeys,
   type IPatient, 
   type IActivity,
   type IUser,
-  type IDocument
+  type IDocument,
+  type IAmbulance,
+  type IDispatch,
+  type DispatchStatus,
+  type FieldChange,
+  type IPatientChange,
+  type IVitalSigns,
+  type IRoutingRule,
+  type IBed,
+  type IPlace,
+  type IPassage
 } from "./db";
+import { withChangeEvents } from "./events";
+import type { Sex } from "../shared/schema";
+import type { EarlyWarningScore } from "./early-warning";
+import type { VitalSigns } from "../shared/schema";
+
+export type PatientSortField = 'createdAt' | 'updatedAt' | 'lastName';
+
+export interface PatientQuery {
+  // Matched against the start of first name, last name, phone and policy number
+  search?: string;
+  isEmergency?: boolean;
+  isCompleted?: boolean;
+  onboardingStep?: number;
+  insuranceStatus?: string;
+  createdFrom?: Date;
+  // The whole of this day is included
+  createdTo?: Date;
+  sort: PatientSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: string;
+}
+
+export interface PatientPage {
+  patients: IPatient[];
+  // Pass back as `cursor` to get the next page; null on the last page
+  nextCursor: string | null;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Thrown by completeOnboarding when the unit has no free bed the patient can take
+export class NoBedAvailableError extends Error {
+  constructor(public unit: string, public requiresIsolation = false) {
+    super(`No free ${requiresIsolation ? 'isolation ' : ''}bed in ${unit}`);
+    this.name = 'NoBedAvailableError';
+  }
+}
+
+// Where a patient is to be admitted
+export interface BedRequest {
+  unit: string;
+  requiresIsolation?: boolean;
+}
+
+// Beds open to a patient of this sex: unrestricted ones, plus their own single-sex bays
+function bedSexFilter(sex?: Sex) {
+  return sex === 'male' || sex === 'female' ? { $in: [null, sex] } : null;
+}
+
+// The emergency episode a provisional record hands over when it turns out
+// to be an existing patient
+function mergedEpisode(source: IPatient): Partial<IPatient> {
+  const episode: Partial<IPatient> = {
+    isEmergency: source.isEmergency,
+    isCompleted: source.isCompleted || undefined,
+    emergencyType: source.emergencyType,
+    admissionLocation: source.admissionLocation,
+    bedId: source.bedId?.toString(),
+    ambulanceId: source.ambulanceId,
+    dispatchId: source.dispatchId,
+    identityMergedAt: new Date()
+  };
+  return Object.fromEntries(Object.entries(episode).filter(([, value]) => value !== undefined && value !== null));
+}
+
+function bedLocation(bed: IBed) {
+  return `${bed.unitName} - Room ${bed.room}, Bed ${bed.label}`;
+}
+
+// A cursor is the sort value and _id of the last patient on the page
+function encodeCursor(patient: IPatient, sort: PatientSortField): string {
+  const value = patient[sort];
+  const serialized = value instanceof Date ? value.toISOString() : value;
+  return Buffer.from(JSON.stringify([serialized, patient._id.toString()])).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: PatientSortField): { value: string | Date; id: string } {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (typeof value !== 'string' || !mongoose.Types.ObjectId.isValid(id)) {
+      throw new InvalidCursorError();
+    }
+    return { value: sort === 'lastName' ? value : new Date(value), id };
+  } catch {
+    throw new InvalidCursorError();
+  }
+}
+
+// Start of the day after the given one, the exclusive end of a createdTo range
+function dayAfter(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+}
+
+function searchTerms(search?: string): string[] {
+  return (search || '').trim().split(/\s+/).filter(Boolean);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Routing rule bounds that are absent when a rule has no limit
+const optionalRuleFields = ['minAgeYears', 'maxAgeYears', 'maxAcuity'] as const;
+
+// Wayfinding fields an admin can clear, unset when a replacement leaves them out
+const optionalPlaceFields = ['icon', 'unitId', 'description'] as const;
+const optionalPassageFields = ['instruction'] as const;
+
+// The staff member behind a patient update
+export interface ChangeAuthor {
+  id: string;
+  name: string;
+}
+
+// Set on every write, so they would show up in every diff; bedId changes along
+// with admissionLocation, which says the same thing readably
+const untrackedFields = new Set(['_id', '__v', 'createdAt', 'updatedAt', 'bedId']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// Missing, null and blank all read as "not filled in"
+function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown) =>
+    value === undefined || value === null || value === '' ? null : value instanceof Date ? value.toISOString() : value;
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+/**
+ * The fields `updates` would change on `before`. Nested objects such as
+ * medicalHistory are compared one level down so each section shows separately.
+ */
+export function diffPatient(before: IPatient, updates: Partial<IPatient>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const current = before as unknown as Record<string, unknown>;
+
+  for (const [field, newValue] of Object.entries(updates)) {
+    if (untrackedFields.has(field) || newValue === undefined) continue;
+    const oldValue = current[field];
+
+    if (isPlainObject(newValue) && (isPlainObject(oldValue) || oldValue == null)) {
+      const oldObject: Record<string, unknown> = oldValue || {};
+      const newObject: Record<string, unknown> = newValue;
+      const keys = new Set([...Object.keys(oldObject), ...Object.keys(newObject)]);
+      for (const key of Array.from(keys)) {
+        if (!sameValue(oldObject[key], newObject[key])) {
+          changes.push({ field: `${field}.${key}`, oldValue: oldObject[key], newValue: newObject[key] });
+        }
+      }
+    } else if (!sameValue(oldValue, newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  }
+  return changes;
+}
 
 export interface IStorage {
   // Patient operations
   getPatient(id: string): Promise<IPatient | undefined>;
-  getAllPatients(): Promise<IPatient[]>;
+  queryPatients(query: PatientQuery): Promise<PatientPage>;
   createPatient(patient: Partial<IPatient>): Promise<IPatient>;
-  updatePatient(id: string, updates: Partial<IPatient>): Promise<IPatient | undefined>;
-  completeOnboarding(id: string, admissionLocation: string): Promise<IPatient | undefined>;
+  // Both record a field-level diff in the patient's change history
+  updatePatient(id: string, updates: Partial<IPatient>, changedBy?: ChangeAuthor): Promise<IPatient | undefined>;
+  // Reserves a bed for the patient and admits them to it; throws NoBedAvailableError when the unit is full
+  completeOnboarding(id: string, bed: BedRequest, changedBy?: ChangeAuthor): Promise<IPatient | undefined>;
+  // Frees the patient's bed
+  dischargePatient(id: string, changedBy?: ChangeAuthor): Promise<IPatient | undefined>;
+  // Moves a provisional record's documents, activities, vitals, history, dispatch and
+  // bed onto an existing patient, then removes it; returns the existing patient
+  mergePatients(sourceId: string, targetId: string, changedBy?: ChangeAuthor): Promise<IPatient | undefined>;
+  // Removes a patient whose creating request failed part way, with the bed,
+  // dispatch link, vitals, history and activities written for it
+  discardPatient(id: string): Promise<boolean>;
+  getPatientChanges(patientId: string): Promise<IPatientChange[]>;
+
+  // Vital signs, newest first
+  recordVitals(patientId: string, vitals: VitalSigns, earlyWarning: EarlyWarningScore, recordedBy?: ChangeAuthor): Promise<IVitalSigns>;
+  getPatientVitals(patientId: string): Promise<IVitalSigns[]>;
+
+  // Emergency routing rules, in priority order
+  getRoutingRules(): Promise<IRoutingRule[]>;
+  createRoutingRule(rule: Partial<IRoutingRule>): Promise<IRoutingRule>;
+  updateRoutingRule(id: string, rule: Partial<IRoutingRule>): Promise<IRoutingRule | undefined>;
+  deleteRoutingRule(id: string): Promise<boolean>;
+
+  // Bed inventory, by unit, room and label
+  getBeds(unit?: string): Promise<IBed[]>;
+  getBed(id: string): Promise<IBed | undefined>;
+  createBed(bed: Partial<IBed>): Promise<IBed>;
+  updateBed(id: string, updates: Partial<IBed>): Promise<IBed | undefined>;
+
+  // Wayfinding graph: places by floor and name, and the passages joining them
+  getPlaces(): Promise<IPlace[]>;
+  createPlace(place: Partial<IPlace>): Promise<IPlace>;
+  updatePlace(id: string, place: Partial<IPlace>): Promise<IPlace | undefined>;
+  deletePlace(id: string): Promise<boolean>;
+  getPassages(): Promise<IPassage[]>;
+  createPassage(passage: Partial<IPassage>): Promise<IPassage>;
+  updatePassage(id: string, passage: Partial<IPassage>): Promise<IPassage | undefined>;
+  deletePassage(id: string): Promise<boolean>;
   
   // Activity operations
   createActivity(activity: Partial<IActivity>): Promise<IActivity>;
   getRecentActivities(limit?: number): Promise<IActivity[]>;
+  getPatientActivities(patientId: string): Promise<IActivity[]>;
   
   // Document operations
   createDocument(document: Partial<IDocument>): Promise<IDocument>;
+  getDocument(id: string): Promise<IDocument | undefined>;
+  updateDocument(id: string, updates: Partial<IDocument>): Promise<IDocument | undefined>;
   getPatientDocuments(patientId: string): Promise<IDocument[]>;
   
+  // Ambulance operations
+  getAmbulance(id: string): Promise<IAmbulance | undefined>;
+  getAllAmbulances(): Promise<IAmbulance[]>;
+  createAmbulance(ambulance: Partial<IAmbulance>): Promise<IAmbulance>;
+  updateAmbulance(id: string, updates: Partial<IAmbulance>): Promise<IAmbulance | undefined>;
+  // Marks an available ambulance as dispatched; undefined if another request got it first
+  claimAmbulance(id: string): Promise<IAmbulance | undefined>;
+
+  // Dispatch operations
+  getDispatch(id: string): Promise<IDispatch | undefined>;
+  getActiveDispatches(): Promise<IDispatch[]>;
+  createDispatch(dispatch: Partial<IDispatch>): Promise<IDispatch>;
+  updateDispatch(id: string, updates: Partial<IDispatch>): Promise<IDispatch | undefined>;
+  // Moves a dispatch from one state to the next and records it in the status
+  // history; undefined if it is missing or no longer in the `from` state
+  advanceDispatch(id: string, from: DispatchStatus, status: DispatchStatus, updates?: Partial<IDispatch>): Promise<IDispatch | undefined>;
+  
   // Dashboard stats
   getDashboardStats(): Promise<{
     totalPatients: number;
@@ -36,6 +276,7 @@ export interface IStorage {
   // User operations
   getUser(id: string): Promise<IUser | undefined>;
   getUserByUsername(username: string): Promise<IUser | undefined>;
+  getAllUsers(): Promise<IUser[]>;
   createUser(user: Partial<IUser>): Promise<IUser>;
 }
 
@@ -50,13 +291,47 @@ export class MongoDBStorage implements IStorage {
     }
   }
 
-  async getAllPatients(): Promise<IPatient[]> {
+  async queryPatients(query: PatientQuery): Promise<PatientPage> {
+    const conditions: mongoose.FilterQuery<IPatient>[] = [];
+
+    // Every search term has to match the start of one of the search keys;
+    // they are stored lower-cased so the anchored prefix can use the index
+    for (const term of searchTerms(query.search)) {
+      conditions.push({ searchKeys: new RegExp('^' + escapeRegExp(term.toLowerCase())) });
+    }
+    if (query.isEmergency !== undefined) conditions.push({ isEmergency: query.isEmergency });
+    if (query.isCompleted !== undefined) conditions.push({ isCompleted: query.isCompleted });
+    if (query.onboardingStep !== undefined) conditions.push({ onboardingStep: query.onboardingStep });
+    if (query.insuranceStatus) conditions.push({ insuranceStatus: query.insuranceStatus });
+    if (query.createdFrom) conditions.push({ createdAt: { $gte: query.createdFrom } });
+    if (query.createdTo) conditions.push({ createdAt: { $lt: dayAfter(query.createdTo) } });
+
+    const direction = query.order === 'asc' ? 1 : -1;
+    if (query.cursor) {
+      const { value, id } = decodeCursor(query.cursor, query.sort);
+      const after = direction === 1 ? '$gt' : '$lt';
+      const objectId = new mongoose.Types.ObjectId(id);
+      conditions.push({
+        $or: [
+          { [query.sort]: { [after]: value } },
+          { [query.sort]: value, _id: { [after]: objectId } }
+        ]
+      });
+    }
+
     try {
-      const patients = await Patient.find().sort({ createdAt: -1 });
-      return patients.map(patient => patient.toObject() as unknown as IPatient);
+      // Fetch one extra to know whether there is another page
+      const patients = await Patient.find(conditions.length > 0 ? { $and: conditions } : {})
+        .sort({ [query.sort]: direction, _id: direction })
+        .limit(query.limit + 1);
+      const page = patients.slice(0, query.limit).map(patient => patient.toObject() as unknown as IPatient);
+      return {
+        patients: page,
+        nextCursor: patients.length > query.limit ? encodeCursor(page[page.length - 1], query.sort) : null
+      };
     } catch (error) {
-      console.error('Error getting all patients:', error);
-      return [];
+      console.error('Error querying patients:', error);
+      return { patients: [], nextCursor: null };
     }
   }
 
@@ -68,6 +343,7 @@ export class MongoDBStorage implements IStorage {
         updatedAt: new Date()
       });
       const savedPatient = await patient.save();
+      await refreshPatientSearchKeys(savedPatient._id.toString());
       return savedPatient.toObject() as unknown as IPatient;
     } catch (error) {
       console.error('Error creating patient:', error);
@@ -75,39 +351,401 @@ export class MongoDBStorage implements IStorage {
     }
   }
 
-  async updatePatient(id: string, updates: Partial<IPatient>): Promise<IPatient | undefined> {
+  async updatePatient(id: string, updates: Partial<IPatient>, changedBy?: ChangeAuthor): Promise<IPatient | undefined> {
     try {
-      const patient = await Patient.findByIdAndUpdate(
+      // The old values come from the update itself, so the history diffs
+      // against exactly what this write replaced
+      const before = await Patient.findByIdAndUpdate(
         id,
         { ...updates, updatedAt: new Date() },
-        { new: true }
+        { new: false }
       );
-      return patient ? patient.toObject() as unknown as IPatient : undefined;
+      if (!before) {
+        return undefined;
+      }
+      if (patientSearchFields.some(field => field in updates)) {
+        await refreshPatientSearchKeys(id);
+      }
+      await this.recordChanges(before.toObject() as unknown as IPatient, updates, changedBy);
+      return this.getPatient(id);
     } catch (error) {
       console.error('Error updating patient:', error);
       return undefined;
     }
   }
 
-  async completeOnboarding(id: string, admissionLocation: string): Promise<IPatient | undefined> {
+  async completeOnboarding(id: string, request: BedRequest, changedBy?: ChangeAuthor): Promise<IPatient | undefined> {
+    const patient = await this.getPatient(id);
+    if (!patient) {
+      return undefined;
+    }
+    // Completing again keeps the bed already held
+    const held = await Bed.findOne({ patientId: id, status: 'occupied' });
+    const bed = held ?? await Bed.findOneAndUpdate(
+      {
+        unit: request.unit,
+        status: 'available',
+        genderRestriction: bedSexFilter(patient.sex),
+        ...(request.requiresIsolation ? { isolation: true } : {})
+      },
+      { $set: { status: 'occupied', patientId: id, assignedAt: new Date() } },
+      // Keep isolation rooms for the patients who need them
+      { new: true, sort: { isolation: 1, room: 1, label: 1 } }
+    );
+    if (!bed) {
+      throw new NoBedAvailableError(request.unit, request.requiresIsolation);
+    }
+    const reserved = bed.toObject() as unknown as IBed;
+    const bedId = reserved._id.toString();
+    if (!held) {
+      // Only one completion can give the patient a bed; one that lost a race
+      // (a double submit) hands its bed back and keeps the winner's
+      const claimed = await Patient.findOneAndUpdate({ _id: id, bedId: null }, { $set: { bedId } });
+      if (!claimed) {
+        await this.freeBed(bedId);
+        return this.getPatient(id);
+      }
+    }
+    const admitted = await this.updatePatient(id, {
+      isCompleted: true,
+      admissionLocation: bedLocation(reserved),
+      bedId
+    }, changedBy);
+    if (!admitted && !held) {
+      await this.freeBed(bedId);
+      await Patient.updateOne({ _id: id, bedId }, { $set: { bedId: null } });
+    }
+    return admitted;
+  }
+
+  async dischargePatient(id: string, changedBy?: ChangeAuthor): Promise<IPatient | undefined> {
+    const patient = await this.getPatient(id);
+    if (!patient) {
+      return undefined;
+    }
+    await this.releaseBed(id);
+    return this.updatePatient(id, { bedId: null, admissionLocation: null, dischargedAt: new Date() }, changedBy);
+  }
+
+  async mergePatients(sourceId: string, targetId: string, changedBy?: ChangeAuthor): Promise<IPatient | undefined> {
+    const source = await this.getPatient(sourceId);
+    if (!source) {
+      return undefined;
+    }
+    const target = await this.getPatient(targetId);
+    if (!target) {
+      return undefined;
+    }
+    const episode = mergedEpisode(source);
+    // Records are moved by id, so a failure part way can move back exactly those
+    const models: mongoose.Model<any>[] = [Document, Activity, VitalSignsRecord, PatientChange, Dispatch, Bed];
+    const moved: { model: mongoose.Model<any>; ids: unknown[] }[] = [];
+    let updated = false;
+    try {
+      for (const model of models) {
+        const ids = await model.find({ patientId: sourceId }).distinct('_id');
+        moved.push({ model, ids });
+        await model.updateMany({ _id: { $in: ids } }, { $set: { patientId: targetId } });
+      }
+      const patient = await this.updatePatient(targetId, episode, changedBy);
+      if (!patient) {
+        throw new Error(`Failed to update patient ${targetId}`);
+      }
+      updated = true;
+      await Patient.deleteOne({ _id: sourceId });
+      return patient;
+    } catch (error) {
+      console.error('Error merging patients, moving records back:', error);
+      try {
+        for (const { model, ids } of moved) {
+          await model.updateMany({ _id: { $in: ids } }, { $set: { patientId: sourceId } });
+        }
+        if (updated) {
+          const restore = Object.fromEntries(Object.keys(episode).map(field => [field, target[field as keyof IPatient] ?? null]));
+          await Patient.updateOne({ _id: targetId }, { $set: restore });
+        }
+      } catch (rollbackError) {
+        console.error('Error moving merged records back:', rollbackError);
+      }
+      return undefined;
+    }
+  }
+
+  async discardPatient(id: string): Promise<boolean> {
     try {
-      const patient = await Patient.findByIdAndUpdate(
+      await this.releaseBed(id);
+      await Promise.all([
+        Dispatch.updateMany({ patientId: id }, { $unset: { patientId: 1 } }),
+        VitalSignsRecord.deleteMany({ patientId: id }),
+        PatientChange.deleteMany({ patientId: id }),
+        Activity.deleteMany({ patientId: id })
+      ]);
+      const result = await Patient.deleteOne({ _id: id });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error('Error discarding patient:', error);
+      return false;
+    }
+  }
+
+  private async freeBed(bedId: string) {
+    try {
+      await Bed.updateOne(
+        { _id: bedId, status: 'occupied' },
+        { $set: { status: 'available' }, $unset: { patientId: 1, assignedAt: 1 } }
+      );
+    } catch (error) {
+      console.error('Error freeing bed:', error);
+    }
+  }
+
+  private async releaseBed(patientId: string) {
+    try {
+      await Bed.updateMany(
+        { patientId, status: 'occupied' },
+        { $set: { status: 'available' }, $unset: { patientId: 1, assignedAt: 1 } }
+      );
+    } catch (error) {
+      console.error('Error releasing bed:', error);
+    }
+  }
+
+  // A failure here is logged rather than failing an update that already happened
+  private async recordChanges(before: IPatient, updates: Partial<IPatient>, changedBy?: ChangeAuthor) {
+    const changes = diffPatient(before, updates);
+    if (changes.length === 0) {
+      return;
+    }
+    try {
+      await PatientChange.create({
+        patientId: before._id,
+        changes,
+        changedBy: changedBy?.id,
+        changedByName: changedBy?.name
+      });
+    } catch (error) {
+      console.error('Error recording patient changes:', error);
+    }
+  }
+
+  async getPatientChanges(patientId: string): Promise<IPatientChange[]> {
+    try {
+      const changes = await PatientChange.find({ patientId }).sort({ createdAt: -1 });
+      return changes.map(change => change.toObject() as unknown as IPatientChange);
+    } catch (error) {
+      console.error('Error getting patient changes:', error);
+      return [];
+    }
+  }
+
+  async recordVitals(patientId: string, vitals: VitalSigns, earlyWarning: EarlyWarningScore, recordedBy?: ChangeAuthor): Promise<IVitalSigns> {
+    try {
+      const record = await VitalSignsRecord.create({
+        ...vitals,
+        patientId,
+        earlyWarning,
+        recordedBy: recordedBy?.id,
+        recordedByName: recordedBy?.name
+      });
+      return record.toObject() as unknown as IVitalSigns;
+    } catch (error) {
+      console.error('Error recording vital signs:', error);
+      throw error;
+    }
+  }
+
+  async getPatientVitals(patientId: string): Promise<IVitalSigns[]> {
+    try {
+      const records = await VitalSignsRecord.find({ patientId }).sort({ recordedAt: -1 });
+      return records.map(record => record.toObject() as unknown as IVitalSigns);
+    } catch (error) {
+      console.error('Error getting patient vital signs:', error);
+      return [];
+    }
+  }
+
+  async getRoutingRules(): Promise<IRoutingRule[]> {
+    try {
+      const rules = await RoutingRule.find().sort({ priority: 1, createdAt: 1 });
+      return rules.map(rule => rule.toObject() as unknown as IRoutingRule);
+    } catch (error) {
+      console.error('Error getting routing rules:', error);
+      return [];
+    }
+  }
+
+  async createRoutingRule(insertRule: Partial<IRoutingRule>): Promise<IRoutingRule> {
+    try {
+      const rule = await RoutingRule.create(insertRule);
+      return rule.toObject() as unknown as IRoutingRule;
+    } catch (error) {
+      console.error('Error creating routing rule:', error);
+      throw error;
+    }
+  }
+
+  // Replaces the whole rule, so bounds cleared in the editor are unset
+  async updateRoutingRule(id: string, rule: Partial<IRoutingRule>): Promise<IRoutingRule | undefined> {
+    try {
+      const cleared = optionalRuleFields.filter(field => rule[field] === undefined);
+      const updated = await RoutingRule.findByIdAndUpdate(
         id,
-        { 
-          isCompleted: true, 
-          admissionLocation,
-          updatedAt: new Date() 
-        },
-        { new: true }
+        { $set: rule, $unset: Object.fromEntries(cleared.map(field => [field, 1])) },
+        { new: true, runValidators: true }
       );
-      return patient ? patient.toObject() as unknown as IPatient : undefined;
+      return updated ? updated.toObject() as unknown as IRoutingRule : undefined;
+    } catch (error) {
+      console.error('Error updating routing rule:', error);
+      return undefined;
+    }
+  }
+
+  async deleteRoutingRule(id: string): Promise<boolean> {
+    try {
+      const result = await RoutingRule.deleteOne({ _id: id });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error('Error deleting routing rule:', error);
+      return false;
+    }
+  }
+
+  async getBeds(unit?: string): Promise<IBed[]> {
+    try {
+      const beds = await Bed.find(unit ? { unit } : {}).sort({ unit: 1, room: 1, label: 1 });
+      return beds.map(bed => bed.toObject() as unknown as IBed);
+    } catch (error) {
+      console.error('Error getting beds:', error);
+      return [];
+    }
+  }
+
+  async getBed(id: string): Promise<IBed | undefined> {
+    try {
+      const bed = await Bed.findById(id);
+      return bed ? bed.toObject() as unknown as IBed : undefined;
+    } catch (error) {
+      console.error('Error getting bed:', error);
+      return undefined;
+    }
+  }
+
+  async createBed(insertBed: Partial<IBed>): Promise<IBed> {
+    try {
+      const bed = await Bed.create(insertBed);
+      return bed.toObject() as unknown as IBed;
+    } catch (error) {
+      console.error('Error creating bed:', error);
+      throw error;
+    }
+  }
+
+  async updateBed(id: string, updates: Partial<IBed>): Promise<IBed | undefined> {
+    try {
+      // An undefined value clears the field, such as lifting a gender restriction
+      const cleared = Object.keys(updates).filter(key => updates[key as keyof IBed] === undefined);
+      const bed = await Bed.findByIdAndUpdate(
+        id,
+        { $set: updates, $unset: Object.fromEntries(cleared.map(key => [key, 1])) },
+        { new: true, runValidators: true }
+      );
+      return bed ? bed.toObject() as unknown as IBed : undefined;
+    } catch (error) {
+      console.error('Error updating bed:', error);
+      return undefined;
+    }
+  }
+
+  async getPlaces(): Promise<IPlace[]> {
+    try {
+      const places = await Place.find().sort({ floor: 1, name: 1 });
+      return places.map(place => place.toObject() as unknown as IPlace);
+    } catch (error) {
+      console.error('Error getting places:', error);
+      return [];
+    }
+  }
+
+  async createPlace(insertPlace: Partial<IPlace>): Promise<IPlace> {
+    try {
+      const place = await Place.create(insertPlace);
+      return place.toObject() as unknown as IPlace;
+    } catch (error) {
+      console.error('Error creating place:', error);
+      throw error;
+    }
+  }
+
+  // Replaces the whole place, so fields cleared in the request are unset
+  async updatePlace(id: string, place: Partial<IPlace>): Promise<IPlace | undefined> {
+    try {
+      const cleared = optionalPlaceFields.filter(field => place[field] === undefined);
+      const updated = await Place.findByIdAndUpdate(
+        id,
+        { $set: place, $unset: Object.fromEntries(cleared.map(field => [field, 1])) },
+        { new: true, runValidators: true }
+      );
+      return updated ? updated.toObject() as unknown as IPlace : undefined;
     } catch (error) {
-      console.error('Error completing onboarding:', error);
+      console.error('Error updating place:', error);
       return undefined;
     }
   }
 
+  async deletePlace(id: string): Promise<boolean> {
+    try {
+      const result = await Place.deleteOne({ _id: id });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error('Error deleting place:', error);
+      return false;
+    }
+  }
 
+  async getPassages(): Promise<IPassage[]> {
+    try {
+      const passages = await Passage.find().sort({ createdAt: 1 });
+      return passages.map(passage => passage.toObject() as unknown as IPassage);
+    } catch (error) {
+      console.error('Error getting passages:', error);
+      return [];
+    }
+  }
+
+  async createPassage(insertPassage: Partial<IPassage>): Promise<IPassage> {
+    try {
+      const passage = await Passage.create(insertPassage);
+      return passage.toObject() as unknown as IPassage;
+    } catch (error) {
+      console.error('Error creating passage:', error);
+      throw error;
+    }
+  }
+
+  async updatePassage(id: string, passage: Partial<IPassage>): Promise<IPassage | undefined> {
+    try {
+      const cleared = optionalPassageFields.filter(field => passage[field] === undefined);
+      const updated = await Passage.findByIdAndUpdate(
+        id,
+        { $set: passage, $unset: Object.fromEntries(cleared.map(field => [field, 1])) },
+        { new: true, runValidators: true }
+      );
+      return updated ? updated.toObject() as unknown as IPassage : undefined;
+    } catch (error) {
+      console.error('Error updating passage:', error);
+      return undefined;
+    }
+  }
+
+  async deletePassage(id: string): Promise<boolean> {
+    try {
+      const result = await Passage.deleteOne({ _id: id });
+      return result.deletedCount > 0;
+    } catch (error) {
+      console.error('Error deleting passage:', error);
+      return false;
+    }
+  }
 
   async createActivity(insertActivity: Partial<IActivity>): Promise<IActivity> {
     try {
@@ -136,6 +774,16 @@ export class MongoDBStorage implements IStorage {
     }
   }
 
+  async getPatientActivities(patientId: string): Promise<IActivity[]> {
+    try {
+      const activities = await Activity.find({ patientId }).sort({ createdAt: -1 });
+      return activities.map(activity => activity.toObject() as unknown as IActivity);
+    } catch (error) {
+      console.error('Error getting patient activities:', error);
+      return [];
+    }
+  }
+
   async getDashboardStats(): Promise<{
     totalPatients: number;
     completedToday: number;
@@ -196,6 +844,16 @@ export class MongoDBStorage implements IStorage {
     }
   }
 
+  async getAllUsers(): Promise<IUser[]> {
+    try {
+      const users = await User.find().sort({ username: 1 });
+      return users.map(user => user.toObject() as unknown as IUser);
+    } catch (error) {
+      console.error('Error getting all users:', error);
+      return [];
+    }
+  }
+
   async createUser(insertUser: Partial<IUser>): Promise<IUser> {
     try {
       const user = new User(insertUser);
@@ -222,6 +880,26 @@ export class MongoDBStorage implements IStorage {
     }
   }
 
+  async getDocument(id: string): Promise<IDocument | undefined> {
+    try {
+      const document = await Document.findById(id);
+      return document ? document.toObject() as unknown as IDocument : undefined;
+    } catch (error) {
+      console.error('Error getting document:', error);
+      return undefined;
+    }
+  }
+
+  async updateDocument(id: string, updates: Partial<IDocument>): Promise<IDocument | undefined> {
+    try {
+      const document = await Document.findByIdAndUpdate(id, updates, { new: true });
+      return document ? document.toObject() as unknown as IDocument : undefined;
+    } catch (error) {
+      console.error('Error updating document:', error);
+      return undefined;
+    }
+  }
+
   async getPatientDocuments(patientId: string): Promise<IDocument[]> {
     try {
       const documents = await Document.find({ patientId }).sort({ uploadedAt: -1 });
@@ -231,6 +909,669 @@ export class MongoDBStorage implements IStorage {
       return [];
     }
   }
+  async getAmbulance(id: string): Promise<IAmbulance | undefined> {
+    try {
+      const ambulance = await Ambulance.findById(id);
+      return ambulance ? ambulance.toObject() as unknown as IAmbulance : undefined;
+    } catch (error) {
+      console.error('Error getting ambulance:', error);
+      return undefined;
+    }
+  }
+
+  async getAllAmbulances(): Promise<IAmbulance[]> {
+    try {
+      const ambulances = await Ambulance.find().sort({ callSign: 1 });
+      return ambulances.map(ambulance => ambulance.toObject() as unknown as IAmbulance);
+    } catch (error) {
+      console.error('Error getting ambulances:', error);
+      return [];
+    }
+  }
+
+  async createAmbulance(insertAmbulance: Partial<IAmbulance>): Promise<IAmbulance> {
+    try {
+      const ambulance = new Ambulance(insertAmbulance);
+      const savedAmbulance = await ambulance.save();
+      return savedAmbulance.toObject() as unknown as IAmbulance;
+    } catch (error) {
+      console.error('Error creating ambulance:', error);
+      throw error;
+    }
+  }
+
+  async updateAmbulance(id: string, updates: Partial<IAmbulance>): Promise<IAmbulance | undefined> {
+    try {
+      const ambulance = await Ambulance.findByIdAndUpdate(id, updates, { new: true });
+      return ambulance ? ambulance.toObject() as unknown as IAmbulance : undefined;
+    } catch (error) {
+      console.error('Error updating ambulance:', error);
+      return undefined;
+    }
+  }
+
+  async claimAmbulance(id: string): Promise<IAmbulance | undefined> {
+    try {
+      const ambulance = await Ambulance.findOneAndUpdate(
+        { _id: id, status: 'available' },
+        { status: 'dispatched' },
+        { new: true }
+      );
+      return ambulance ? ambulance.toObject() as unknown as IAmbulance : undefined;
+    } catch (error) {
+      console.error('Error claiming ambulance:', error);
+      return undefined;
+    }
+  }
+
+  async getDispatch(id: string): Promise<IDispatch | undefined> {
+    try {
+      const dispatch = await Dispatch.findById(id);
+      return dispatch ? dispatch.toObject() as unknown as IDispatch : undefined;
+    } catch (error) {
+      console.error('Error getting dispatch:', error);
+      return undefined;
+    }
+  }
+
+  async getActiveDispatches(): Promise<IDispatch[]> {
+    try {
+      const dispatches = await Dispatch.find({ status: { $nin: ['arrived', 'cancelled'] } }).sort({ createdAt: 1 });
+      return dispatches.map(dispatch => dispatch.toObject() as unknown as IDispatch);
+    } catch (error) {
+      console.error('Error getting active dispatches:', error);
+      return [];
+    }
+  }
+
+  async createDispatch(insertDispatch: Partial<IDispatch>): Promise<IDispatch> {
+    try {
+      const dispatch = new Dispatch(insertDispatch);
+      const savedDispatch = await dispatch.save();
+      return savedDispatch.toObject() as unknown as IDispatch;
+    } catch (error) {
+      console.error('Error creating dispatch:', error);
+      throw error;
+    }
+  }
+
+  async updateDispatch(id: string, updates: Partial<IDispatch>): Promise<IDispatch | undefined> {
+    try {
+      const dispatch = await Dispatch.findByIdAndUpdate(
+        id,
+        { ...updates, updatedAt: new Date() },
+        { new: true }
+      );
+      return dispatch ? dispatch.toObject() as unknown as IDispatch : undefined;
+    } catch (error) {
+      console.error('Error updating dispatch:', error);
+      return undefined;
+    }
+  }
+
+  async advanceDispatch(id: string, from: DispatchStatus, status: DispatchStatus, updates: Partial<IDispatch> = {}): Promise<IDispatch | undefined> {
+    try {
+      // An undefined value clears the field, such as the ETA once the crew is on scene
+      const cleared = Object.keys(updates).filter(key => updates[key as keyof IDispatch] === undefined);
+      const set = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+      // The state check is part of the update, so of two racing callers only one moves it
+      const dispatch = await Dispatch.findOneAndUpdate(
+        { _id: id, status: from },
+        {
+          $set: { ...set, status, updatedAt: new Date() },
+          $unset: Object.fromEntries(cleared.map(key => [key, 1])),
+          $push: { statusHistory: { status, at: new Date() } }
+        },
+        { new: true }
+      );
+      return dispatch ? dispatch.toObject() as unknown as IDispatch : undefined;
+    } catch (error) {
+      console.error('Error advancing dispatch:', error);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Keeps everything in process memory. Used for demos, offline development and
+ * integration tests where no MongoDB instance is available.
+ */
+export class MemStorage implements IStorage {
+  private patients = new Map<string, IPatient>();
+  private activities: IActivity[] = [];
+  private documents = new Map<string, IDocument>();
+  private users = new Map<string, IUser>();
+  private ambulances = new Map<string, IAmbulance>();
+  private dispatches = new Map<string, IDispatch>();
+  private patientChanges: IPatientChange[] = [];
+  private vitals: IVitalSigns[] = [];
+  private routingRules = new Map<string, IRoutingRule>();
+  private beds = new Map<string, IBed>();
+  private places = new Map<string, IPlace>();
+  private passages = new Map<string, IPassage>();
+
+  // Match the ObjectId format MongoDB would generate so IDs look the same to clients
+  private newId(): string {
+    return new mongoose.Types.ObjectId().toString();
+  }
+
+  async getPatient(id: string): Promise<IPatient | undefined> {
+    const patient = this.patients.get(id);
+    return patient ? { ...patient } : undefined;
+  }
+
+  async queryPatients(query: PatientQuery): Promise<PatientPage> {
+    const terms = searchTerms(query.search).map(term => term.toLowerCase());
+    const direction = query.order === 'asc' ? 1 : -1;
+    const compare = (a: IPatient, b: IPatient) => {
+      const x = a[query.sort];
+      const y = b[query.sort];
+      const byField = x < y ? -1 : x > y ? 1 : 0;
+      return (byField || a._id.localeCompare(b._id)) * direction;
+    };
+    const cursor = query.cursor ? decodeCursor(query.cursor, query.sort) : undefined;
+    const cursorPatient = cursor && { [query.sort]: cursor.value, _id: cursor.id } as unknown as IPatient;
+
+    const matches = Array.from(this.patients.values())
+      .filter(patient => terms.every(term =>
+        [patient.firstName, patient.lastName, patient.phone, patient.insurancePolicyNumber]
+          .some(field => field?.toLowerCase().startsWith(term))))
+      .filter(patient => query.isEmergency === undefined || patient.isEmergency === query.isEmergency)
+      .filter(patient => query.isCompleted === undefined || patient.isCompleted === query.isCompleted)
+      .filter(patient => query.onboardingStep === undefined || patient.onboardingStep === query.onboardingStep)
+      .filter(patient => !query.insuranceStatus || patient.insuranceStatus === query.insuranceStatus)
+      .filter(patient => !query.createdFrom || patient.createdAt >= query.createdFrom)
+      .filter(patient => !query.createdTo || patient.createdAt < dayAfter(query.createdTo))
+      .filter(patient => !cursorPatient || compare(patient, cursorPatient) > 0)
+      .sort(compare);
+
+    const page = matches.slice(0, query.limit).map(patient => ({ ...patient }));
+    return {
+      patients: page,
+      nextCursor: matches.length > query.limit ? encodeCursor(page[page.length - 1], query.sort) : null
+    };
+  }
+
+  async createPatient(insertPatient: Partial<IPatient>): Promise<IPatient> {
+    const now = new Date();
+    const patient = {
+      onboardingStep: 1,
+      isCompleted: false,
+      isEmergency: false,
+      isProvisional: false,
+      insuranceStatus: 'pending',
+      ...insertPatient,
+      _id: this.newId(),
+      createdAt: now,
+      updatedAt: now
+    } as IPatient;
+    this.patients.set(patient._id, patient);
+    return { ...patient };
+  }
+
+  async updatePatient(id: string, updates: Partial<IPatient>, changedBy?: ChangeAuthor): Promise<IPatient | undefined> {
+    const existing = this.patients.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const patient = { ...existing, ...updates, _id: existing._id, updatedAt: new Date() };
+    this.patients.set(id, patient);
+
+    const changes = diffPatient(existing, updates);
+    if (changes.length > 0) {
+      this.patientChanges.push({
+        _id: this.newId(),
+        patientId: id,
+        changes,
+        changedBy: changedBy?.id,
+        changedByName: changedBy?.name,
+        createdAt: patient.updatedAt
+      });
+    }
+    return { ...patient };
+  }
+
+  async completeOnboarding(id: string, request: BedRequest, changedBy?: ChangeAuthor): Promise<IPatient | undefined> {
+    const patient = this.patients.get(id);
+    if (!patient) {
+      return undefined;
+    }
+    // Finding and taking the bed without an await in between keeps it atomic
+    const sexes = bedSexFilter(patient.sex)?.$in ?? [null];
+    const bed = this.bedsInOrder().find(candidate => candidate.patientId === id && candidate.status === 'occupied')
+      ?? this.bedsInOrder()
+        .filter(candidate =>
+          candidate.unit === request.unit &&
+          candidate.status === 'available' &&
+          sexes.includes(candidate.genderRestriction ?? null) &&
+          (!request.requiresIsolation || candidate.isolation))
+        .sort((a, b) => Number(a.isolation) - Number(b.isolation))[0];
+    if (!bed) {
+      throw new NoBedAvailableError(request.unit, request.requiresIsolation);
+    }
+    Object.assign(bed, { status: 'occupied', patientId: id, assignedAt: bed.assignedAt ?? new Date(), updatedAt: new Date() });
+    return this.updatePatient(id, { isCompleted: true, admissionLocation: bedLocation(bed), bedId: bed._id }, changedBy);
+  }
+
+  async dischargePatient(id: string, changedBy?: ChangeAuthor): Promise<IPatient | undefined> {
+    if (!this.patients.has(id)) {
+      return undefined;
+    }
+    for (const bed of Array.from(this.beds.values())) {
+      if (bed.patientId === id && bed.status === 'occupied') {
+        Object.assign(bed, { status: 'available', patientId: undefined, assignedAt: undefined, updatedAt: new Date() });
+      }
+    }
+    return this.updatePatient(id, { bedId: null, admissionLocation: null, dischargedAt: new Date() }, changedBy);
+  }
+
+  async mergePatients(sourceId: string, targetId: string, changedBy?: ChangeAuthor): Promise<IPatient | undefined> {
+    const source = this.patients.get(sourceId);
+    if (!source || !this.patients.has(targetId)) {
+      return undefined;
+    }
+    const records: { patientId?: string }[] = [
+      ...Array.from(this.documents.values()),
+      ...this.activities,
+      ...this.vitals,
+      ...this.patientChanges,
+      ...Array.from(this.dispatches.values()),
+      ...Array.from(this.beds.values())
+    ];
+    for (const record of records) {
+      if (record.patientId === sourceId) {
+        record.patientId = targetId;
+      }
+    }
+    const patient = await this.updatePatient(targetId, mergedEpisode(source), changedBy);
+    this.patients.delete(sourceId);
+    return patient;
+  }
+
+  async discardPatient(id: string): Promise<boolean> {
+    for (const bed of Array.from(this.beds.values())) {
+      if (bed.patientId === id) {
+        Object.assign(bed, { status: 'available', patientId: undefined, assignedAt: undefined, updatedAt: new Date() });
+      }
+    }
+    for (const dispatch of Array.from(this.dispatches.values())) {
+      if (dispatch.patientId === id) {
+        dispatch.patientId = undefined;
+      }
+    }
+    this.vitals = this.vitals.filter(record => record.patientId !== id);
+    this.patientChanges = this.patientChanges.filter(change => change.patientId !== id);
+    this.activities = this.activities.filter(activity => activity.patientId !== id);
+    return this.patients.delete(id);
+  }
+
+  private bedsInOrder(): IBed[] {
+    return Array.from(this.beds.values()).sort((a, b) =>
+      a.unit.localeCompare(b.unit) || a.room.localeCompare(b.room) || a.label.localeCompare(b.label));
+  }
+
+  async getPatientChanges(patientId: string): Promise<IPatientChange[]> {
+    return this.patientChanges
+      .filter(change => change.patientId === patientId)
+      .reverse()
+      .map(change => ({ ...change }));
+  }
+
+  async recordVitals(patientId: string, vitals: VitalSigns, earlyWarning: EarlyWarningScore, recordedBy?: ChangeAuthor): Promise<IVitalSigns> {
+    const record: IVitalSigns = {
+      ...vitals,
+      _id: this.newId(),
+      patientId,
+      earlyWarning,
+      recordedBy: recordedBy?.id,
+      recordedByName: recordedBy?.name,
+      recordedAt: new Date()
+    };
+    this.vitals.push(record);
+    return { ...record };
+  }
+
+  async getPatientVitals(patientId: string): Promise<IVitalSigns[]> {
+    return this.vitals
+      .filter(record => record.patientId === patientId)
+      .reverse()
+      .map(record => ({ ...record }));
+  }
+
+  async getRoutingRules(): Promise<IRoutingRule[]> {
+    return Array.from(this.routingRules.values())
+      .sort((a, b) => a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime())
+      .map(rule => ({ ...rule }));
+  }
+
+  async createRoutingRule(insertRule: Partial<IRoutingRule>): Promise<IRoutingRule> {
+    const now = new Date();
+    const rule = {
+      enabled: true,
+      emergencyTypes: [],
+      fallbackUnitIds: [],
+      ...insertRule,
+      _id: this.newId(),
+      createdAt: now,
+      updatedAt: now
+    } as IRoutingRule;
+    this.routingRules.set(rule._id, rule);
+    return { ...rule };
+  }
+
+  async updateRoutingRule(id: string, rule: Partial<IRoutingRule>): Promise<IRoutingRule | undefined> {
+    const existing = this.routingRules.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...rule, _id: existing._id, createdAt: existing.createdAt, updatedAt: new Date() } as IRoutingRule;
+    this.routingRules.set(id, updated);
+    return { ...updated };
+  }
+
+  async deleteRoutingRule(id: string): Promise<boolean> {
+    return this.routingRules.delete(id);
+  }
+
+  async getBeds(unit?: string): Promise<IBed[]> {
+    return this.bedsInOrder()
+      .filter(bed => !unit || bed.unit === unit)
+      .map(bed => ({ ...bed }));
+  }
+
+  async getBed(id: string): Promise<IBed | undefined> {
+    const bed = this.beds.get(id);
+    return bed ? { ...bed } : undefined;
+  }
+
+  async createBed(insertBed: Partial<IBed>): Promise<IBed> {
+    const now = new Date();
+    const bed = {
+      status: 'available',
+      isolation: false,
+      ...insertBed,
+      _id: this.newId(),
+      createdAt: now,
+      updatedAt: now
+    } as IBed;
+    this.beds.set(bed._id, bed);
+    return { ...bed };
+  }
+
+  async updateBed(id: string, updates: Partial<IBed>): Promise<IBed | undefined> {
+    const existing = this.beds.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const bed = { ...existing, ...updates, _id: existing._id, updatedAt: new Date() };
+    this.beds.set(id, bed);
+    return { ...bed };
+  }
+
+  async getPlaces(): Promise<IPlace[]> {
+    return Array.from(this.places.values())
+      .sort((a, b) => a.floor - b.floor || a.name.localeCompare(b.name))
+      .map(place => ({ ...place }));
+  }
+
+  async createPlace(insertPlace: Partial<IPlace>): Promise<IPlace> {
+    const now = new Date();
+    const place = { ...insertPlace, _id: this.newId(), createdAt: now, updatedAt: now } as IPlace;
+    this.places.set(place._id, place);
+    return { ...place };
+  }
+
+  async updatePlace(id: string, place: Partial<IPlace>): Promise<IPlace | undefined> {
+    const existing = this.places.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...place, _id: existing._id, createdAt: existing.createdAt, updatedAt: new Date() } as IPlace;
+    this.places.set(id, updated);
+    return { ...updated };
+  }
+
+  async deletePlace(id: string): Promise<boolean> {
+    return this.places.delete(id);
+  }
+
+  async getPassages(): Promise<IPassage[]> {
+    return Array.from(this.passages.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(passage => ({ ...passage }));
+  }
+
+  async createPassage(insertPassage: Partial<IPassage>): Promise<IPassage> {
+    const now = new Date();
+    const passage = { distanceMeters: 0, ...insertPassage, _id: this.newId(), createdAt: now, updatedAt: now } as IPassage;
+    this.passages.set(passage._id, passage);
+    return { ...passage };
+  }
+
+  async updatePassage(id: string, passage: Partial<IPassage>): Promise<IPassage | undefined> {
+    const existing = this.passages.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...passage, _id: existing._id, createdAt: existing.createdAt, updatedAt: new Date() } as IPassage;
+    this.passages.set(id, updated);
+    return { ...updated };
+  }
+
+  async deletePassage(id: string): Promise<boolean> {
+    return this.passages.delete(id);
+  }
+
+  async createActivity(insertActivity: Partial<IActivity>): Promise<IActivity> {
+    const activity = {
+      ...insertActivity,
+      _id: this.newId(),
+      createdAt: new Date()
+    } as IActivity;
+    this.activities.push(activity);
+    return { ...activity };
+  }
+
+  async getRecentActivities(limit: number = 10): Promise<IActivity[]> {
+    return this.activities
+      .slice()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit)
+      .map(activity => {
+        // Mirror the populate('patientId', 'firstName lastName') done by MongoDBStorage
+        const patient = activity.patientId ? this.patients.get(activity.patientId) : undefined;
+        return {
+          ...activity,
+          patientId: patient
+            ? { _id: patient._id, firstName: patient.firstName, lastName: patient.lastName } as unknown as string
+            : activity.patientId
+        };
+      });
+  }
+
+  async getPatientActivities(patientId: string): Promise<IActivity[]> {
+    return this.activities
+      .filter(activity => activity.patientId === patientId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(activity => ({ ...activity }));
+  }
+
+  async getDashboardStats(): Promise<{
+    totalPatients: number;
+    completedToday: number;
+    inProgress: number;
+    averageTime: number;
+  }> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const patients = Array.from(this.patients.values());
+    return {
+      totalPatients: patients.length,
+      completedToday: patients.filter(p => p.isCompleted && p.updatedAt >= today).length,
+      inProgress: patients.filter(p => !p.isCompleted && p.onboardingStep > 0).length,
+      averageTime: 8
+    };
+  }
+
+  async getUser(id: string): Promise<IUser | undefined> {
+    const user = this.users.get(id);
+    return user ? { ...user } : undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<IUser | undefined> {
+    const user = Array.from(this.users.values()).find(u => u.username === username);
+    return user ? { ...user } : undefined;
+  }
+
+  async getAllUsers(): Promise<IUser[]> {
+    return Array.from(this.users.values())
+      .sort((a, b) => a.username.localeCompare(b.username))
+      .map(user => ({ ...user }));
+  }
+
+  async createUser(insertUser: Partial<IUser>): Promise<IUser> {
+    if (insertUser.username && await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`Username ${insertUser.username} already exists`);
+    }
+    const user = {
+      role: 'registrar',
+      ...insertUser,
+      _id: this.newId()
+    } as IUser;
+    this.users.set(user._id, user);
+    return { ...user };
+  }
+
+  async createDocument(insertDocument: Partial<IDocument>): Promise<IDocument> {
+    const document = {
+      verificationStatus: 'pending',
+      extractionStatus: 'pending',
+      ...insertDocument,
+      _id: this.newId(),
+      uploadedAt: new Date()
+    } as IDocument;
+    this.documents.set(document._id, document);
+    return { ...document };
+  }
+
+  async getDocument(id: string): Promise<IDocument | undefined> {
+    const document = this.documents.get(id);
+    return document ? { ...document } : undefined;
+  }
+
+  async updateDocument(id: string, updates: Partial<IDocument>): Promise<IDocument | undefined> {
+    const existing = this.documents.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const document = { ...existing, ...updates, _id: existing._id };
+    this.documents.set(id, document);
+    return { ...document };
+  }
+
+  async getPatientDocuments(patientId: string): Promise<IDocument[]> {
+    return Array.from(this.documents.values())
+      .filter(document => document.patientId === patientId)
+      .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime())
+      .map(document => ({ ...document }));
+  }
+  async getAmbulance(id: string): Promise<IAmbulance | undefined> {
+    const ambulance = this.ambulances.get(id);
+    return ambulance ? { ...ambulance } : undefined;
+  }
+
+  async getAllAmbulances(): Promise<IAmbulance[]> {
+    return Array.from(this.ambulances.values())
+      .sort((a, b) => a.callSign.localeCompare(b.callSign))
+      .map(ambulance => ({ ...ambulance }));
+  }
+
+  async createAmbulance(insertAmbulance: Partial<IAmbulance>): Promise<IAmbulance> {
+    if (Array.from(this.ambulances.values()).some(a => a.callSign === insertAmbulance.callSign)) {
+      throw new Error(`Ambulance ${insertAmbulance.callSign} already exists`);
+    }
+    const ambulance = {
+      status: 'available',
+      simulated: false,
+      lastPositionAt: new Date(),
+      ...insertAmbulance,
+      _id: this.newId()
+    } as IAmbulance;
+    this.ambulances.set(ambulance._id, ambulance);
+    return { ...ambulance };
+  }
+
+  async updateAmbulance(id: string, updates: Partial<IAmbulance>): Promise<IAmbulance | undefined> {
+    const existing = this.ambulances.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const ambulance = { ...existing, ...updates, _id: existing._id };
+    this.ambulances.set(id, ambulance);
+    return { ...ambulance };
+  }
+
+  async claimAmbulance(id: string): Promise<IAmbulance | undefined> {
+    const existing = this.ambulances.get(id);
+    if (!existing || existing.status !== 'available') {
+      return undefined;
+    }
+    return this.updateAmbulance(id, { status: 'dispatched' });
+  }
+
+  async getDispatch(id: string): Promise<IDispatch | undefined> {
+    const dispatch = this.dispatches.get(id);
+    return dispatch ? { ...dispatch, statusHistory: [...dispatch.statusHistory] } : undefined;
+  }
+
+  async getActiveDispatches(): Promise<IDispatch[]> {
+    const finished: DispatchStatus[] = ['arrived', 'cancelled'];
+    return Array.from(this.dispatches.values())
+      .filter(dispatch => !finished.includes(dispatch.status))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(dispatch => ({ ...dispatch, statusHistory: [...dispatch.statusHistory] }));
+  }
+
+  async createDispatch(insertDispatch: Partial<IDispatch>): Promise<IDispatch> {
+    const now = new Date();
+    const dispatch = {
+      status: 'requested',
+      statusHistory: [],
+      ...insertDispatch,
+      _id: this.newId(),
+      createdAt: now,
+      updatedAt: now
+    } as IDispatch;
+    this.dispatches.set(dispatch._id, dispatch);
+    return { ...dispatch, statusHistory: [...dispatch.statusHistory] };
+  }
+
+  async updateDispatch(id: string, updates: Partial<IDispatch>): Promise<IDispatch | undefined> {
+    const existing = this.dispatches.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const dispatch = { ...existing, ...updates, _id: existing._id, updatedAt: new Date() };
+    this.dispatches.set(id, dispatch);
+    return { ...dispatch, statusHistory: [...dispatch.statusHistory] };
+  }
+
+  async advanceDispatch(id: string, from: DispatchStatus, status: DispatchStatus, updates: Partial<IDispatch> = {}): Promise<IDispatch | undefined> {
+    const existing = this.dispatches.get(id);
+    if (!existing || existing.status !== from) {
+      return undefined;
+    }
+    return this.updateDispatch(id, {
+      ...updates,
+      status,
+      statusHistory: [...existing.statusHistory, { status, at: new Date() }]
+    });
+  }
 }
 
-export const storage = new MongoDBStorage();
+// STORAGE=memory runs the server without a database
+export const usingMemoryStorage = process.env.STORAGE === 'memory';
+
+// Writes are published to connected dashboards through ./events
+export const storage: IStorage = withChangeEvents(usingMemoryStorage ? new MemStorage() : new MongoDBStorage());
@@ -0,0 +1,234 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { codeSystems, type CodeSystem, type MedicalCode } from "../shared/schema";
+
+/*
+ * Offline terminology lookup for the medical history pick-lists. Code sets
+ * are JSON files in TERMINOLOGY_DIR (default server/code-sets), one per code
+ * system:
+ *
+ *   { "system": "ICD-10",
+ *     "terms": [{ "code": "I10", "display": "Essential (primary) hypertension",
+ *                 "synonyms": ["high blood pressure", "HTN"] }, ...] }
+ *
+ * A query matches a term's display text, its synonyms or its code, in any
+ * word order and with a typo or two in longer words.
+ */
+
+const codeSetSchema = z.object({
+  system: z.enum(codeSystems),
+  description: z.string().optional(),
+  terms: z.array(z.object({
+    code: z.string().min(1),
+    display: z.string().min(1),
+    synonyms: z.array(z.string()).default([]),
+  })),
+});
+
+export interface TerminologyMatch extends MedicalCode {
+  display: string;
+  // The synonym that matched, when it wasn't the display text
+  matched?: string;
+  score: number;
+}
+
+interface IndexedName {
+  text: string;
+  normalized: string;
+  words: string[];
+}
+
+interface IndexedTerm {
+  system: CodeSystem;
+  code: string;
+  display: string;
+  names: IndexedName[];
+}
+
+function normalize(text: string) {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9.]+/g, " ")
+    .trim();
+}
+
+function indexName(text: string): IndexedName {
+  const normalized = normalize(text);
+  return { text, normalized, words: normalized.split(" ").filter(Boolean) };
+}
+
+// Typos tolerated in a query word, by its length
+function allowedEdits(word: string) {
+  if (word.length <= 3) return 0;
+  return word.length <= 6 ? 1 : 2;
+}
+
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Edits needed for a query word to match a name word, allowing the query word
+// to be an unfinished prefix while the user is still typing
+function wordDistance(queryWord: string, nameWord: string) {
+  if (nameWord.startsWith(queryWord)) return 0;
+  const max = allowedEdits(queryWord);
+  if (max === 0) return Infinity;
+  const distance = Math.min(
+    editDistance(queryWord, nameWord, max),
+    editDistance(queryWord, nameWord.slice(0, queryWord.length), max),
+  );
+  return distance <= max ? distance : Infinity;
+}
+
+function scoreName(query: string, queryWords: string[], name: IndexedName) {
+  if (name.normalized === query) return 100;
+  if (name.normalized.startsWith(query)) return 90;
+  let edits = 0;
+  for (const queryWord of queryWords) {
+    const best = Math.min(...name.words.map(word => wordDistance(queryWord, word)));
+    if (best === Infinity) {
+      return name.normalized.includes(query) ? 60 : 0;
+    }
+    edits += best;
+  }
+  return edits === 0 ? 80 : Math.max(10, 50 - edits * 10);
+}
+
+function scoreTerm(query: string, queryWords: string[], term: IndexedTerm) {
+  const code = term.code.toLowerCase();
+  if (code === query) return { score: 100 };
+  if (query.length >= 2 && code.startsWith(query)) return { score: 85 };
+
+  let best: { score: number; matched?: string } = { score: 0 };
+  term.names.forEach((name, index) => {
+    // The display text wins ties against a synonym
+    const score = scoreName(query, queryWords, name) - (index === 0 ? 0 : 1);
+    if (score > best.score) {
+      best = { score, matched: index === 0 ? undefined : name.text };
+    }
+  });
+  return best;
+}
+
+function loadCodeSets(directory: string): IndexedTerm[] {
+  const terms: IndexedTerm[] = [];
+  let files: string[];
+  try {
+    files = readdirSync(directory).filter(file => file.endsWith(".json")).sort();
+  } catch (error) {
+    console.error(`Failed to read terminology directory ${directory}:`, error);
+    return terms;
+  }
+
+  for (const file of files) {
+    try {
+      const codeSet = codeSetSchema.parse(JSON.parse(readFileSync(path.join(directory, file), "utf8")));
+      for (const term of codeSet.terms) {
+        terms.push({
+          system: codeSet.system,
+          code: term.code,
+          display: term.display,
+          names: [term.display, ...term.synonyms].map(indexName),
+        });
+      }
+      console.log(`Loaded ${codeSet.terms.length} ${codeSet.system} terms from ${file}`);
+    } catch (error) {
+      console.error(`Failed to load code set ${file}, skipping it:`, error);
+    }
+  }
+  return terms;
+}
+
+let loaded: IndexedTerm[] | undefined;
+
+function getTerms() {
+  if (loaded === undefined) {
+    loaded = loadCodeSets(process.env.TERMINOLOGY_DIR || path.resolve(import.meta.dirname, "code-sets"));
+  }
+  return loaded;
+}
+
+/**
+ * Best matches for a typeahead query, highest score first, optionally limited
+ * to some code systems
+ */
+export function searchTerminology(
+  text: string,
+  { systems, limit }: { systems?: CodeSystem[]; limit: number },
+): TerminologyMatch[] {
+  const query = normalize(text);
+  if (!query) return [];
+  const queryWords = query.split(" ");
+
+  const matches: TerminologyMatch[] = [];
+  for (const term of getTerms()) {
+    if (systems && !systems.includes(term.system)) continue;
+    const { score, matched } = scoreTerm(query, queryWords, term);
+    if (score > 0) {
+      matches.push({ system: term.system, code: term.code, display: term.display, matched, score });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.display.length - b.display.length || a.display.localeCompare(b.display))
+    .slice(0, limit);
+}
+
+// Units and dose forms that free-text medication names carry ("warfarin 5 mg tablets")
+const doseWords = new Set([
+  "mg", "mcg", "ug", "g", "kg", "ml", "l", "iu", "unit", "units", "mmol", "meq",
+  "tab", "tabs", "tablet", "tablets", "cap", "caps", "capsule", "capsules", "syrup", "suspension",
+  "solution", "injection", "inj", "cream", "ointment", "gel", "drops", "inhaler", "patch", "spray",
+  "oral", "po", "iv", "im", "sc", "er", "sr", "xr", "xl", "cr", "dr", "od", "bd", "bid", "tid", "qid", "prn", "daily",
+]);
+
+// Drops strengths ("5", "500mg", "0.5") and dose words, keeping the drug's own words
+function withoutDose(text: string) {
+  return normalize(text).split(" ").filter(word => word && !/^\d/.test(word) && !doseWords.has(word));
+}
+
+function resolveExactly(text: string, systems: CodeSystem[]) {
+  const [best] = searchTerminology(text, { systems, limit: 1 });
+  return best && best.score >= 79 ? best : undefined;
+}
+
+/**
+ * The term a free-text name most likely refers to, when the match is close
+ * enough to act on without a person picking it. Dose and form are ignored,
+ * and failing the whole name, the longest run of its words that resolves is
+ * used, so "Penicillin V" finds penicillin.
+ */
+export function resolveTerm(text: string, systems: CodeSystem[]): TerminologyMatch | undefined {
+  const exact = resolveExactly(text, systems);
+  if (exact) return exact;
+  const words = withoutDose(text);
+  for (let length = words.length; length > 0; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      const run = words.slice(start, start + length).join(" ");
+      // Short fragments match too many names by prefix
+      if (run.length < 4) continue;
+      const match = resolveExactly(run, systems);
+      if (match) return match;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { triage } from "./triage";
+
+// Red flags must survive a negation elsewhere in the sentence, since the model can only raise this acuity
+test("a negation in another clause doesn't hide a red flag", () => {
+  const cases: [string, number, string][] = [
+    ["No fever but I cannot breathe", 1, "Severe difficulty breathing"],
+    ["I am not sure but I think I have chest pain", 2, "Chest pain"],
+    ["never had this before - chest pain and sweating", 2, "Chest pain"],
+  ];
+  for (const [symptoms, acuity, finding] of cases) {
+    const result = triage({ symptoms });
+    assert.equal(result.acuity, acuity, symptoms);
+    assert.ok(result.findings.some(f => f.finding === finding), symptoms);
+  }
+});
+
+test("a red flag the patient rules out doesn't count", () => {
+  for (const symptoms of ["no chest pain", "denies any chest pain", "I have no fever"]) {
+    assert.deepEqual(triage({ symptoms }).findings, [], symptoms);
+  }
+});
@@ -0,0 +1,214 @@
+/*
+ * Deterministic triage in the style of the Emergency Severity Index. Red-flag
+ * phrases in the symptom description and vital signs outside age-specific
+ * danger zones each imply an acuity level; the most acute one wins.
+ *
+ *   1  Resuscitation  needs a life-saving intervention now
+ *   2  Emergent       high risk, confused or in severe pain, or danger-zone vitals
+ *   3  Urgent         likely to need several resources (labs, imaging, IV)
+ *   4  Less urgent    likely to need one resource
+ *   5  Non-urgent     likely to need none
+ *
+ * This is a floor for the model's assessment, not a replacement for a nurse.
+ */
+
+export type Acuity = 1 | 2 | 3 | 4 | 5;
+
+export const acuityLabels: Record<Acuity, string> = {
+  1: "Resuscitation",
+  2: "Emergent",
+  3: "Urgent",
+  4: "Less urgent",
+  5: "Non-urgent",
+};
+
+// ACVPU: alert, new confusion, responds to voice, to pain, or unresponsive
+export const consciousnessLevels = ["alert", "confused", "voice", "pain", "unresponsive"] as const;
+export type Consciousness = typeof consciousnessLevels[number];
+
+// Rough ACVPU equivalent of a Glasgow Coma Scale score
+export function consciousnessFromGcs(gcs: number): Consciousness {
+  if (gcs >= 15) return "alert";
+  if (gcs >= 13) return "confused";
+  if (gcs >= 9) return "voice";
+  if (gcs >= 4) return "pain";
+  return "unresponsive";
+}
+
+export interface TriageVitals {
+  heartRate?: number;
+  respiratoryRate?: number;
+  oxygenSaturation?: number;
+  systolicBP?: number;
+  temperatureC?: number;
+  // 0-10
+  painScore?: number;
+  consciousness?: Consciousness;
+}
+
+export interface TriageFinding {
+  source: "symptom" | "vital";
+  finding: string;
+  acuity: Acuity;
+  recommendation?: string;
+  condition?: string;
+}
+
+export interface TriageResult {
+  acuity: Acuity;
+  label: string;
+  urgency: "low" | "medium" | "high";
+  shouldSeekCare: boolean;
+  // Most acute first
+  findings: TriageFinding[];
+}
+
+interface SymptomRule {
+  pattern: RegExp;
+  acuity: Acuity;
+  finding: string;
+  condition?: string;
+  recommendation: string;
+}
+
+const CALL_EMERGENCY = "Call emergency services or go to the nearest emergency department now";
+
+const symptomRules: SymptomRule[] = [
+  // 1 - Resuscitation
+  { pattern: /not breathing|stopped breathing|no pulse|cardiac arrest|unresponsive|unconscious|won'?t wake up|can'?t be woken/i, acuity: 1, finding: "Unresponsive or not breathing", condition: "Cardiac or respiratory arrest", recommendation: "Call emergency services immediately and start CPR if trained" },
+  { pattern: /(can'?t|cannot|unable to) breathe|choking|turning blue|blue lips/i, acuity: 1, finding: "Severe difficulty breathing", condition: "Airway obstruction or respiratory failure", recommendation: CALL_EMERGENCY },
+  { pattern: /throat (is )?(closing|swelling)|tongue swelling|anaphyla/i, acuity: 1, finding: "Signs of anaphylaxis", condition: "Anaphylaxis", recommendation: "Use an epinephrine auto-injector if available and call emergency services" },
+
+  // 2 - Emergent
+  { pattern: /chest (pain|pressure|tightness|discomfort)|pain (in|spreading to) (my |the )?(left )?(arm|jaw)/i, acuity: 2, finding: "Chest pain", condition: "Acute coronary syndrome", recommendation: CALL_EMERGENCY },
+  { pattern: /stroke|slurred speech|face (is )?droop|facial droop|numb(ness)? on one side|weakness on one side|sudden (confusion|vision loss|loss of vision)/i, acuity: 2, finding: "Stroke warning signs", condition: "Stroke", recommendation: "Call emergency services now and note the time symptoms started" },
+  { pattern: /short(ness)? of breath|difficulty breathing|trouble breathing|breathless|wheezing badly/i, acuity: 2, finding: "Shortness of breath", condition: "Respiratory distress", recommendation: "Seek emergency care now" },
+  { pattern: /suicid|kill (myself|himself|herself)|end my life|self[- ]harm|overdos/i, acuity: 2, finding: "Risk of self-harm or overdose", recommendation: "Call emergency services or a crisis line now and stay with someone" },
+  { pattern: /seizure|convuls|fitting/i, acuity: 2, finding: "Seizure", condition: "Seizure", recommendation: CALL_EMERGENCY },
+  { pattern: /worst headache|thunderclap|sudden severe headache/i, acuity: 2, finding: "Sudden severe headache", condition: "Subarachnoid haemorrhage", recommendation: CALL_EMERGENCY },
+  { pattern: /(vomiting|coughing( up)?) blood|blood in (my )?vomit|black (tarry )?stool/i, acuity: 2, finding: "Internal bleeding signs", condition: "Gastrointestinal bleeding", recommendation: CALL_EMERGENCY },
+  { pattern: /bleeding (heavily|a lot)|won'?t stop bleeding|uncontrolled bleeding|severe bleeding/i, acuity: 2, finding: "Uncontrolled bleeding", recommendation: "Apply firm pressure to the wound and seek emergency care now" },
+  { pattern: /confus|disoriented|not making sense/i, acuity: 2, finding: "New confusion", recommendation: "Seek emergency care now" },
+  { pattern: /pregnan[a-z]* .*(bleeding|severe pain)|(bleeding|severe pain) .*pregnan/i, acuity: 2, finding: "Bleeding or severe pain in pregnancy", recommendation: CALL_EMERGENCY },
+  { pattern: /severe (burn|allergic reaction)|hives .*(breath|swelling)/i, acuity: 2, finding: "Severe burn or allergic reaction", recommendation: CALL_EMERGENCY },
+  { pattern: /(hit|injured|bumped) (my |his |her )?head.*(passed out|blacked out|vomit)|head (injury|trauma).*(passed out|blacked out|vomit)/i, acuity: 2, finding: "Head injury with loss of consciousness or vomiting", condition: "Traumatic brain injury", recommendation: CALL_EMERGENCY },
+
+  // 3 - Urgent
+  { pattern: /abdominal pain|stomach pain|belly pain|pain in (my )?(abdomen|stomach)/i, acuity: 3, finding: "Abdominal pain", recommendation: "See a doctor today" },
+  { pattern: /fever|high temperature/i, acuity: 3, finding: "Fever", recommendation: "See a doctor today, sooner if it rises or you feel worse" },
+  { pattern: /(can'?t|cannot) keep (anything|fluids|water) down|vomiting|diarrh/i, acuity: 3, finding: "Vomiting or diarrhoea", condition: "Dehydration", recommendation: "Sip fluids and see a doctor today if you can't keep them down" },
+  { pattern: /broken (bone|arm|leg|wrist|ankle)|fracture|bone (is )?sticking out|deformed/i, acuity: 3, finding: "Possible fracture", recommendation: "Keep the limb still and get it examined today" },
+  { pattern: /flank pain|kidney stone|blood in (my )?urine/i, acuity: 3, finding: "Flank pain or blood in urine", recommendation: "See a doctor today" },
+  { pattern: /head (injury|trauma)|hit (my )?head/i, acuity: 3, finding: "Head injury", recommendation: "Get checked today and watch for drowsiness or vomiting" },
+
+  // 4 - Less urgent
+  { pattern: /sprain|twisted (my )?(ankle|wrist|knee)/i, acuity: 4, finding: "Sprain", recommendation: "Rest, ice and elevate; see a doctor if you can't bear weight" },
+  { pattern: /\bcut\b|laceration|gash/i, acuity: 4, finding: "Cut", recommendation: "Clean the wound and get it checked if it is deep or gaping" },
+  { pattern: /ear ?ache|ear pain|sore throat|painful urination|burning (when|on) urinat|eye (pain|redness)|red eye/i, acuity: 4, finding: "Localised infection symptoms", recommendation: "Book an appointment within a day or two" },
+
+  // 5 - Non-urgent
+  { pattern: /runny nose|stuffy nose|sneez|common cold|\bcold\b|mild cough|\bcough\b/i, acuity: 5, finding: "Cold symptoms", recommendation: "Rest and fluids; see a doctor if symptoms last more than a week" },
+  { pattern: /\brash\b|itch|insect bite|bug bite|refill|prescription/i, acuity: 5, finding: "Minor skin or medication request", recommendation: "Book a routine appointment" },
+];
+
+// A negator followed by at most two words, then the matched phrase
+const governingNegation = /\b(?:no|not|denies|denied|without|never)((?:\s+[\w']+){0,2})\s+$/i;
+// Start a new clause, so a negation before them rules nothing out after them
+const clauseBreaks = /\b(?:but|and|though|although|however|yet|except)\b/i;
+
+/**
+ * A red flag the patient explicitly rules out ("no chest pain", "denies any
+ * chest pain") doesn't count. The negator has to govern the phrase directly:
+ * "not sure but I have chest pain" and "never had this before - chest pain"
+ * still count, since a missed red flag is worse than an extra one.
+ */
+function isNegated(text: string, index: number) {
+  const negation = text.slice(Math.max(0, index - 60), index).match(governingNegation);
+  return negation !== null && !clauseBreaks.test(negation[1]);
+}
+
+function symptomFindings(symptoms: string): TriageFinding[] {
+  const findings: TriageFinding[] = [];
+  for (const rule of symptomRules) {
+    const pattern = new RegExp(rule.pattern.source, "gi");
+    const matched = Array.from(symptoms.matchAll(pattern)).some(match => !isNegated(symptoms, match.index ?? 0));
+    if (matched) {
+      const { finding, acuity, recommendation, condition } = rule;
+      findings.push({ source: "symptom", finding, acuity, recommendation, condition });
+    }
+  }
+  return findings;
+}
+
+// ESI heart and breathing rate danger zones by age in years
+function dangerZone(age?: number) {
+  if (age === undefined || age >= 8) return { heartRate: 100, respiratoryRate: 20 };
+  if (age < 1) return { heartRate: 180, respiratoryRate: 50 };
+  if (age < 3) return { heartRate: 160, respiratoryRate: 40 };
+  return { heartRate: 140, respiratoryRate: 30 };
+}
+
+function vitalFindings(vitals: TriageVitals, age?: number): TriageFinding[] {
+  const findings: TriageFinding[] = [];
+  const add = (acuity: Acuity, finding: string) =>
+    findings.push({ source: "vital", finding, acuity, recommendation: acuity <= 2 ? CALL_EMERGENCY : undefined });
+  const zone = dangerZone(age);
+  const { heartRate, respiratoryRate, oxygenSaturation, systolicBP, temperatureC, painScore, consciousness } = vitals;
+
+  if (consciousness === "pain" || consciousness === "unresponsive") add(1, `Responds only to ${consciousness === "pain" ? "pain" : "nothing"}`);
+  else if (consciousness === "voice" || consciousness === "confused") add(2, consciousness === "voice" ? "Responds only to voice" : "New confusion");
+
+  if (oxygenSaturation !== undefined) {
+    if (oxygenSaturation < 85) add(1, `Oxygen saturation ${oxygenSaturation}%`);
+    else if (oxygenSaturation < 92) add(2, `Oxygen saturation ${oxygenSaturation}%`);
+  }
+  if (respiratoryRate !== undefined) {
+    if (respiratoryRate < 8) add(1, `Respiratory rate ${respiratoryRate}/min`);
+    else if (respiratoryRate > zone.respiratoryRate) add(2, `Respiratory rate ${respiratoryRate}/min`);
+  }
+  if (heartRate !== undefined) {
+    if (heartRate < 40 || (heartRate > 150 && (age === undefined || age >= 8))) add(1, `Heart rate ${heartRate}/min`);
+    else if (heartRate > zone.heartRate) add(2, `Heart rate ${heartRate}/min`);
+  }
+  if (systolicBP !== undefined) {
+    if (systolicBP < 70) add(1, `Systolic blood pressure ${systolicBP} mmHg`);
+    else if (systolicBP < 90) add(2, `Systolic blood pressure ${systolicBP} mmHg`);
+  }
+  if (temperatureC !== undefined) {
+    if (temperatureC < 35) add(2, `Temperature ${temperatureC}°C`);
+    else if (temperatureC >= 38 && age !== undefined && age < 1) add(2, `Fever of ${temperatureC}°C in an infant`);
+    else if (temperatureC >= 38) add(3, `Temperature ${temperatureC}°C`);
+  }
+  if (painScore !== undefined && painScore >= 7) add(2, `Severe pain (${painScore}/10)`);
+  return findings;
+}
+
+export function urgencyForAcuity(acuity: Acuity): TriageResult["urgency"] {
+  if (acuity <= 2) return "high";
+  return acuity === 3 ? "medium" : "low";
+}
+
+export function triageResult(acuity: Acuity, findings: TriageFinding[]): TriageResult {
+  return {
+    acuity,
+    label: acuityLabels[acuity],
+    urgency: urgencyForAcuity(acuity),
+    shouldSeekCare: acuity <= 3,
+    findings,
+  };
+}
+
+/**
+ * Acuity from the symptom text and any vitals taken. With no red flags at
+ * all the patient still gets "less urgent", not "non-urgent", since nothing
+ * was ruled out either.
+ */
+export function triage({ symptoms, age, vitals }: {
+  symptoms: string;
+  age?: number;
+  vitals?: TriageVitals;
+}): TriageResult {
+  const findings = [...symptomFindings(symptoms), ...(vitals ? vitalFindings(vitals, age) : [])]
+    .sort((a, b) => a.acuity - b.acuity);
+  return triageResult(findings[0]?.acuity ?? 4, findings);
+}
@@ -0,0 +1,277 @@
+import { storage } from "./storage";
+import { generalAdmissionUnit } from "./beds";
+import type { IPassage, IPlace } from "./db";
+import { floorName, formatWalkTime, type PassageInput, type PlaceInput } from "../shared/wayfinding";
+
+/*
+ * Walk times and directions over the hospital floor plan. Places are nodes
+ * and passages are edges weighted by the seconds they take, so the quickest
+ * route is a shortest path. Elevators join every pair of floors they serve
+ * and are timed by the wait plus the floors travelled; stairs only join
+ * neighbouring floors and are skipped for step-free routes.
+ */
+
+const walkingMetersPerSecond = 1.2;
+const elevatorWaitSeconds = 45;
+const elevatorSecondsPerFloor = 5;
+const stairsSecondsPerFloor = 25;
+
+// Where walk times are measured from when no starting place is given
+export const defaultOriginKey = "main_entrance";
+
+export interface RouteOptions {
+  stepFree?: boolean;
+}
+
+export interface DirectionStep {
+  instruction: string;
+  seconds: number;
+  floor: string;
+  // The place the step ends at
+  placeId: string;
+}
+
+export interface Directions {
+  from: IPlace;
+  to: IPlace;
+  seconds: number;
+  walkTime: string;
+  steps: DirectionStep[];
+}
+
+interface Edge {
+  passage: IPassage;
+  to: string;
+  seconds: number;
+  // Walked from the passage's start place to its end place
+  forward: boolean;
+}
+
+export class Wayfinding {
+  private placesById = new Map<string, IPlace>();
+  private edges = new Map<string, Edge[]>();
+
+  constructor(places: IPlace[], passages: IPassage[]) {
+    for (const place of places) {
+      this.placesById.set(place._id.toString(), place);
+      this.edges.set(place._id.toString(), []);
+    }
+    for (const passage of passages) {
+      const fromId = passage.fromId.toString();
+      const toId = passage.toId.toString();
+      const from = this.placesById.get(fromId);
+      const to = this.placesById.get(toId);
+      if (!from || !to) continue;
+      const seconds = passageSeconds(passage, from, to);
+      this.edges.get(fromId)!.push({ passage, to: toId, seconds, forward: true });
+      this.edges.get(toId)!.push({ passage, to: fromId, seconds, forward: false });
+    }
+  }
+
+  get places(): IPlace[] {
+    return Array.from(this.placesById.values());
+  }
+
+  place(idOrKey: string): IPlace | undefined {
+    return this.placesById.get(idOrKey) ?? this.places.find(place => place.key === idOrKey);
+  }
+
+  // The place holding a unit's beds, when the floor plan has one
+  placeForUnit(unitId: string): IPlace | undefined {
+    return this.places.find(place => place.unitId === unitId);
+  }
+
+  /**
+   * Seconds to every reachable place from the origin, with the edge each
+   * was reached by so a route can be read back (Dijkstra; the graph is a few
+   * hundred places at most, so a linear scan for the closest is enough)
+   */
+  private shortestPaths(originId: string, options: RouteOptions) {
+    const seconds = new Map<string, number>([[originId, 0]]);
+    const via = new Map<string, { from: string; edge: Edge }>();
+    const done = new Set<string>();
+    while (true) {
+      let current: string | undefined;
+      for (const [id, time] of Array.from(seconds)) {
+        if (!done.has(id) && (current === undefined || time < seconds.get(current)!)) {
+          current = id;
+        }
+      }
+      if (current === undefined) break;
+      done.add(current);
+      for (const edge of this.edges.get(current) ?? []) {
+        if (options.stepFree && edge.passage.kind === "stairs") continue;
+        const time = seconds.get(current)! + edge.seconds;
+        if (!done.has(edge.to) && time < (seconds.get(edge.to) ?? Infinity)) {
+          seconds.set(edge.to, time);
+          via.set(edge.to, { from: current, edge });
+        }
+      }
+    }
+    return { seconds, via };
+  }
+
+  // Seconds from the origin to each reachable place, keyed by place id
+  walkTimes(origin: IPlace, options: RouteOptions = {}): Map<string, number> {
+    return this.shortestPaths(origin._id.toString(), options).seconds;
+  }
+
+  // Undefined when no passage connects the two places
+  directions(from: IPlace, to: IPlace, options: RouteOptions = {}): Directions | undefined {
+    const fromId = from._id.toString();
+    const toId = to._id.toString();
+    const { seconds, via } = this.shortestPaths(fromId, options);
+    const total = seconds.get(toId);
+    if (total === undefined) return undefined;
+
+    const hops: { from: IPlace; to: IPlace; edge: Edge }[] = [];
+    for (let id = toId; id !== fromId; ) {
+      const step = via.get(id)!;
+      hops.unshift({ from: this.placesById.get(step.from)!, to: this.placesById.get(id)!, edge: step.edge });
+      id = step.from;
+    }
+
+    const steps: DirectionStep[] = hops.map(({ from: start, to: end, edge }) => ({
+      instruction: instructionFor(edge, start, end),
+      seconds: Math.round(edge.seconds),
+      floor: floorName(end.floor),
+      placeId: end._id.toString(),
+    }));
+    steps.push({ instruction: `Arrive at ${to.name}`, seconds: 0, floor: floorName(to.floor), placeId: toId });
+
+    return { from, to, seconds: Math.round(total), walkTime: formatWalkTime(total), steps };
+  }
+}
+
+function passageSeconds(passage: IPassage, from: IPlace, to: IPlace): number {
+  const floors = Math.abs(to.floor - from.floor);
+  const walking = passage.distanceMeters / walkingMetersPerSecond;
+  switch (passage.kind) {
+    case "elevator":
+      return elevatorWaitSeconds + floors * elevatorSecondsPerFloor;
+    case "stairs":
+      return walking + floors * stairsSecondsPerFloor;
+    default:
+      return walking;
+  }
+}
+
+// Signage recorded on the passage wins when walked the way it was written; otherwise a step is described from the floor plan
+function instructionFor({ passage, forward }: Edge, from: IPlace, to: IPlace): string {
+  if (passage.kind === "elevator") {
+    return `Take the elevator to ${floorName(to.floor)}`;
+  }
+  if (passage.kind === "stairs") {
+    return `Take the stairs ${to.floor > from.floor ? "up" : "down"} to ${floorName(to.floor)}`;
+  }
+  if (passage.instruction && forward) {
+    return passage.instruction;
+  }
+  const distance = passage.distanceMeters > 0 ? ` ${Math.round(passage.distanceMeters)} m` : "";
+  return `Walk${distance} to ${to.name}${to.wing !== from.wing ? ` in the ${to.wing} wing` : ""}`;
+}
+
+export async function loadWayfinding(): Promise<Wayfinding> {
+  const [places, passages] = await Promise.all([storage.getPlaces(), storage.getPassages()]);
+  return new Wayfinding(places, passages);
+}
+
+type PassageSpec = Omit<PassageInput, "fromId" | "toId"> & { from: string; to: string };
+
+// Floors served by the central elevator bank
+const liftFloors = [0, 1, 2, 3, 4];
+
+// The departments that /api/navigation listed before the floor plan was stored, plus the admission units
+const defaultPlaces: PlaceInput[] = [
+  { key: "main_entrance", name: "Main Entrance", kind: "entrance", floor: 0, wing: "Center", icon: "fas fa-door-open" },
+  { key: "ambulance_entrance", name: "Ambulance Entrance", kind: "entrance", floor: 0, wing: "East", icon: "fas fa-ambulance" },
+  { key: "main_lobby", name: "Main Lobby", kind: "junction", floor: 0, wing: "Center" },
+  { key: "information_desk", name: "Information Desk", kind: "point_of_interest", floor: 0, wing: "Center", icon: "fas fa-info-circle" },
+  { key: "cafeteria", name: "Cafeteria", kind: "point_of_interest", floor: 0, wing: "South", icon: "fas fa-utensils" },
+  { key: "east_corridor", name: "East Corridor", kind: "junction", floor: 0, wing: "East" },
+  { key: "west_corridor", name: "West Corridor", kind: "junction", floor: 0, wing: "West" },
+  { key: "emergency", name: "Emergency Room", kind: "department", floor: 0, wing: "East", icon: "fas fa-ambulance", unitId: "emergency_room" },
+  { key: "trauma", name: "Trauma Center", kind: "department", floor: 0, wing: "West", icon: "fas fa-band-aid", unitId: "trauma_center" },
+  { key: "pediatric_emergency", name: "Pediatric Emergency", kind: "department", floor: 0, wing: "South", icon: "fas fa-baby", unitId: "pediatric_er" },
+  { key: "pharmacy", name: "Pharmacy", kind: "department", floor: 0, wing: "Center", icon: "fas fa-pills" },
+  { key: "lab", name: "Laboratory", kind: "department", floor: 1, wing: "East", icon: "fas fa-flask" },
+  { key: "radiology", name: "Radiology", kind: "department", floor: 2, wing: "West", icon: "fas fa-x-ray" },
+  { key: "general_admission", name: "General Admission", kind: "department", floor: 2, wing: "Center", icon: "fas fa-bed", unitId: generalAdmissionUnit },
+  { key: "cardiac", name: "Cardiac Care Unit", kind: "department", floor: 2, wing: "East", icon: "fas fa-heart", unitId: "cardiac_unit" },
+  { key: "icu", name: "ICU", kind: "department", floor: 3, wing: "North", icon: "fas fa-heartbeat", unitId: "icu" },
+  { key: "surgery", name: "Surgery", kind: "department", floor: 4, wing: "South", icon: "fas fa-user-md" },
+  ...liftFloors.map(floor => ({
+    key: `elevators_${floor}`,
+    name: `Elevators, ${floorName(floor)}`,
+    kind: "elevator" as const,
+    floor,
+    wing: "Center",
+  })),
+];
+
+const defaultPassages: PassageSpec[] = [
+  { from: "main_entrance", to: "main_lobby", kind: "hallway", distanceMeters: 20, instruction: "Go through the main entrance into the lobby" },
+  { from: "main_lobby", to: "information_desk", kind: "hallway", distanceMeters: 10 },
+  { from: "main_lobby", to: "pharmacy", kind: "hallway", distanceMeters: 15, instruction: "The pharmacy is on your right past the information desk" },
+  { from: "main_lobby", to: "east_corridor", kind: "hallway", distanceMeters: 60, instruction: "Turn left out of the lobby into the East corridor" },
+  { from: "east_corridor", to: "emergency", kind: "hallway", distanceMeters: 40, instruction: "Follow the red signs to the Emergency Room" },
+  { from: "ambulance_entrance", to: "emergency", kind: "hallway", distanceMeters: 10 },
+  { from: "main_lobby", to: "west_corridor", kind: "hallway", distanceMeters: 60, instruction: "Turn right out of the lobby into the West corridor" },
+  { from: "west_corridor", to: "trauma", kind: "hallway", distanceMeters: 40, instruction: "Follow the yellow signs to the Trauma Center" },
+  { from: "main_lobby", to: "pediatric_emergency", kind: "hallway", distanceMeters: 80, instruction: "Go straight through the lobby and follow the green signs to Pediatric Emergency" },
+  { from: "main_lobby", to: "cafeteria", kind: "hallway", distanceMeters: 50 },
+  { from: "main_lobby", to: "elevators_0", kind: "hallway", distanceMeters: 25, instruction: "Walk to the elevators behind the information desk" },
+  { from: "elevators_1", to: "lab", kind: "hallway", distanceMeters: 70, instruction: "Turn left out of the elevators and follow the signs to the Laboratory" },
+  { from: "elevators_2", to: "radiology", kind: "hallway", distanceMeters: 60, instruction: "Turn right out of the elevators and follow the signs to Radiology" },
+  { from: "elevators_2", to: "general_admission", kind: "hallway", distanceMeters: 40, instruction: "Turn left out of the elevators and follow the blue signs to General Admission" },
+  { from: "elevators_2", to: "cardiac", kind: "hallway", distanceMeters: 80, instruction: "Turn left out of the elevators and follow the red signs to the Cardiac Care Unit" },
+  { from: "elevators_3", to: "icu", kind: "hallway", distanceMeters: 50, instruction: "Follow the blue signs to the ICU" },
+  { from: "elevators_4", to: "surgery", kind: "hallway", distanceMeters: 60, instruction: "Check in at the Surgery reception straight ahead" },
+  ...liftFloors.flatMap((from, index) => liftFloors.slice(index + 1).map(to => ({
+    from: `elevators_${from}`,
+    to: `elevators_${to}`,
+    kind: "elevator" as const,
+    distanceMeters: 0,
+  }))),
+  // The stairwell beside the elevators
+  ...liftFloors.slice(1).map(floor => ({
+    from: `elevators_${floor - 1}`,
+    to: `elevators_${floor}`,
+    kind: "stairs" as const,
+    distanceMeters: 10,
+  })),
+];
+
+/**
+ * Creates the default floor plan when no places are stored. Every unit that
+ * patients are admitted to gets a place, so directions to a bed work from the
+ * start.
+ */
+export async function seedWayfinding() {
+  const existing = await storage.getPlaces();
+  if (existing.length > 0) {
+    return;
+  }
+  const ids = new Map<string, string>();
+  for (const place of defaultPlaces) {
+    const created = await storage.createPlace(place);
+    ids.set(place.key, created._id.toString());
+  }
+  for (const { from, to, ...passage } of defaultPassages) {
+    await storage.createPassage({ ...passage, fromId: ids.get(from)!, toId: ids.get(to)! });
+  }
+  console.log(`Created ${defaultPlaces.length} default places and ${defaultPassages.length} passages`);
+}
+
+// Fields of a passage that don't fit the floor plan, keyed like fieldErrors in routes.ts
+export function passageErrors(passage: PassageInput, places: IPlace[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const from = places.find(place => place._id.toString() === passage.fromId);
+  const to = places.find(place => place._id.toString() === passage.toId);
+  if (!from) errors.fromId = "Unknown place";
+  if (!to) errors.toId = "Unknown place";
+  if (from && to && passage.kind !== "hallway" && from.floor === to.floor) {
+    errors.toId = `${passage.kind === "elevator" ? "An elevator" : "Stairs"} must join different floors`;
+  }
+  return errors;
+}
@@ -0,0 +1,61 @@
+import type { MedicalCode } from "./schema";
+
+/*
+ * Coded pick-lists for the medical onboarding step. Drug allergens and
+ * medications use RxNorm ingredient codes, other allergens SNOMED CT
+ * substance codes and conditions ICD-10-CM.
+ */
+
+export interface CodedTerm {
+  label: string;
+  code: MedicalCode;
+}
+
+function term(label: string, system: MedicalCode["system"], code: string, display = label): CodedTerm {
+  return { label, code: { system, code, display } };
+}
+
+export const commonAllergens: CodedTerm[] = [
+  term("Penicillin", "RxNorm", "7980", "penicillin G"),
+  term("Amoxicillin", "RxNorm", "723", "amoxicillin"),
+  term("Sulfa drugs", "RxNorm", "10180", "sulfamethoxazole"),
+  term("Aspirin", "RxNorm", "1191", "aspirin"),
+  term("Ibuprofen", "RxNorm", "5640", "ibuprofen"),
+  term("Codeine", "RxNorm", "2670", "codeine"),
+  term("Latex", "SNOMED", "111088007", "Latex (substance)"),
+  term("Peanuts", "SNOMED", "256349002", "Peanut - dietary (substance)"),
+  term("Fish", "SNOMED", "227037002", "Fish - dietary (substance)"),
+  term("Milk", "SNOMED", "3718001", "Cow's milk (substance)"),
+  term("Eggs", "SNOMED", "102263004", "Eggs (edible) (substance)"),
+  term("Bee stings", "SNOMED", "288328004", "Bee venom (substance)"),
+];
+
+export const commonMedications: CodedTerm[] = [
+  term("Aspirin", "RxNorm", "1191", "aspirin"),
+  term("Ibuprofen", "RxNorm", "5640", "ibuprofen"),
+  term("Acetaminophen", "RxNorm", "161", "acetaminophen"),
+  term("Metformin", "RxNorm", "6809", "metformin"),
+  term("Lisinopril", "RxNorm", "29046", "lisinopril"),
+  term("Amlodipine", "RxNorm", "17767", "amlodipine"),
+  term("Atorvastatin", "RxNorm", "83367", "atorvastatin"),
+  term("Levothyroxine", "RxNorm", "10582", "levothyroxine"),
+  term("Omeprazole", "RxNorm", "7646", "omeprazole"),
+  term("Albuterol", "RxNorm", "435", "albuterol"),
+  term("Warfarin", "RxNorm", "11289", "warfarin"),
+  term("Metoprolol", "RxNorm", "6918", "metoprolol"),
+];
+
+export const commonConditions: CodedTerm[] = [
+  term("Type 2 diabetes", "ICD-10", "E11.9", "Type 2 diabetes mellitus without complications"),
+  term("Hypertension", "ICD-10", "I10", "Essential (primary) hypertension"),
+  term("Asthma", "ICD-10", "J45.909", "Unspecified asthma, uncomplicated"),
+  term("Coronary artery disease", "ICD-10", "I25.10", "Atherosclerotic heart disease of native coronary artery without angina pectoris"),
+  term("Heart failure", "ICD-10", "I50.9", "Heart failure, unspecified"),
+  term("COPD", "ICD-10", "J44.9", "Chronic obstructive pulmonary disease, unspecified"),
+  term("Osteoarthritis", "ICD-10", "M19.90", "Unspecified osteoarthritis, unspecified site"),
+  term("Depression", "ICD-10", "F32.9", "Major depressive disorder, single episode, unspecified"),
+  term("Anxiety", "ICD-10", "F41.9", "Anxiety disorder, unspecified"),
+  term("Chronic kidney disease", "ICD-10", "N18.9", "Chronic kidney disease, unspecified"),
+  term("Hypothyroidism", "ICD-10", "E03.9", "Hypothyroidism, unspecified"),
+  term("Atrial fibrillation", "ICD-10", "I48.91", "Unspecified atrial fibrillation"),
+];
@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+/*
+ * Emergency routing rules, shared by the server that evaluates them and the
+ * admin page that edits them. A rule sends emergencies matching its type,
+ * age band and acuity to a unit, with fallback units in order.
+ */
+
+export const emergencyTypeValues = ["cardiac", "trauma", "respiratory", "neurological", "pediatric", "obstetric", "general"] as const;
+export type EmergencyType = typeof emergencyTypeValues[number];
+
+// Emergency Severity Index, 1 (resuscitation) to 5 (non-urgent)
+export const acuitySchema = z.number().int().min(1).max(5);
+
+export const routingRuleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  // Lower runs first; the first enabled rule that matches decides
+  priority: z.number().int().min(0),
+  // Empty matches every type
+  emergencyTypes: z.array(z.enum(emergencyTypeValues)).default([]),
+  // Age band in whole years, minimum inclusive and maximum exclusive
+  minAgeYears: z.number().int().min(0).optional(),
+  maxAgeYears: z.number().int().min(1).optional(),
+  // Matches this acuity level and anything more urgent
+  maxAcuity: acuitySchema.optional(),
+  unitId: z.string().trim().min(1, "Destination unit is required"),
+  fallbackUnitIds: z.array(z.string()).default([]),
+  enabled: z.boolean().default(true),
+}).strict().refine(
+  rule => rule.minAgeYears === undefined || rule.maxAgeYears === undefined || rule.minAgeYears < rule.maxAgeYears,
+  { message: "Minimum age must be below the maximum", path: ["maxAgeYears"] },
+);
+
+// What a routing decision is made from; unknown age or acuity skip rules that need them
+export const routingInputSchema = z.object({
+  emergencyType: z.enum(emergencyTypeValues),
+  ageYears: z.number().int().min(0).max(130).optional(),
+  acuity: acuitySchema.optional(),
+});
+
+export type RoutingRuleInput = z.infer<typeof routingRuleSchema>;
+export type RoutingInput = z.infer<typeof routingInputSchema>;
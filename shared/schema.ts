@@ -0,0 +1,154 @@
+import { z } from "zod";
+
+/*
+ * Patient validation shared by the Express routes, the client forms and the
+ * IPatient type, so the rules and shapes are defined in one place. Server
+ * imports use a relative path; client code imports "@shared/schema".
+ */
+
+export const sexValues = ["male", "female", "unknown"] as const;
+export type Sex = typeof sexValues[number];
+
+export const insuranceStatusValues = ["pending", "verified", "failed"] as const;
+export type InsuranceStatus = typeof insuranceStatusValues[number];
+
+// Personal step: who the patient is and who to call
+export const personalInfoSchema = z.object({
+  firstName: z.string().trim().min(1, "First name is required"),
+  lastName: z.string().trim().min(1, "Last name is required"),
+  dateOfBirth: z.string().min(1, "Date of birth is required"),
+  phone: z.string().trim().min(10, "Valid phone number is required"),
+  address: z.string().trim().min(1, "Address is required"),
+  emergencyContactName: z.string().optional(),
+  emergencyContactRelationship: z.string().optional(),
+  emergencyContactPhone: z.string().optional(),
+});
+
+export const insuranceInfoSchema = z.object({
+  insuranceProvider: z.string().optional(),
+  insurancePolicyNumber: z.string().optional(),
+  insuranceGroupNumber: z.string().optional(),
+});
+
+export const codeSystems = ["ICD-10", "SNOMED", "RxNorm"] as const;
+export type CodeSystem = typeof codeSystems[number];
+
+// A term from a clinical terminology, kept with the display text it was picked by
+export const medicalCodeSchema = z.object({
+  system: z.enum(codeSystems),
+  code: z.string().trim().min(1, "Code is required"),
+  display: z.string().optional(),
+});
+
+export const allergySeverityValues = ["mild", "moderate", "severe"] as const;
+export const medicationRouteValues = [
+  "oral", "sublingual", "inhaled", "topical", "subcutaneous", "intramuscular", "intravenous", "rectal", "other",
+] as const;
+export const conditionStatusValues = ["active", "inactive", "remission", "resolved"] as const;
+
+export const allergySchema = z.object({
+  substance: z.string().trim().min(1, "Substance is required"),
+  reaction: z.string().optional(),
+  severity: z.enum(allergySeverityValues).optional(),
+  code: medicalCodeSchema.optional(),
+});
+
+export const medicationSchema = z.object({
+  name: z.string().trim().min(1, "Medication name is required"),
+  dose: z.string().optional(),
+  route: z.enum(medicationRouteValues).optional(),
+  frequency: z.string().optional(),
+  code: medicalCodeSchema.optional(),
+});
+
+export const conditionSchema = z.object({
+  name: z.string().trim().min(1, "Condition name is required"),
+  // A date or just a year, as the patient remembers it
+  onset: z.string().optional(),
+  status: z.enum(conditionStatusValues).default("active"),
+  code: medicalCodeSchema.optional(),
+});
+
+// Coded conditions plus free-text sections; unknown sections are rejected
+export const medicalHistorySchema = z.object({
+  conditions: z.array(conditionSchema),
+  surgeries: z.string(),
+  familyHistory: z.string(),
+}).partial().strict();
+
+// Medical step
+export const medicalInfoSchema = z.object({
+  allergies: z.array(allergySchema).optional(),
+  medications: z.array(medicationSchema).optional(),
+  medicalHistory: medicalHistorySchema.optional(),
+});
+
+// POST /api/patients. A new patient starts at the first onboarding step;
+// admission only happens through completeOnboarding, which reserves the bed.
+export const patientSchema = personalInfoSchema
+  .merge(insuranceInfoSchema)
+  .merge(medicalInfoSchema)
+  .extend({
+    sex: z.enum(sexValues).optional(),
+    insuranceStatus: z.enum(insuranceStatusValues).optional(),
+    isEmergency: z.boolean().optional(),
+    emergencyType: z.string().optional(),
+  });
+
+// PATCH /api/patients/:id. Completion, admission, emergency and identity-merge
+// fields have their own routes, so anything else is rejected.
+export const patientUpdateSchema = patientSchema.pick({
+  firstName: true,
+  lastName: true,
+  dateOfBirth: true,
+  phone: true,
+  address: true,
+  sex: true,
+  emergencyContactName: true,
+  emergencyContactRelationship: true,
+  emergencyContactPhone: true,
+  insuranceProvider: true,
+  insurancePolicyNumber: true,
+  insuranceGroupNumber: true,
+  insuranceStatus: true,
+  allergies: true,
+  medications: true,
+  medicalHistory: true,
+}).extend({
+  onboardingStep: z.number().int().min(1).max(4),
+}).partial().strict();
+
+// One set of observations; any subset may be taken, but not none
+export const vitalSignsSchema = z.object({
+  heartRate: z.number().int().min(0).max(300).optional(),
+  systolicBP: z.number().int().min(0).max(300).optional(),
+  diastolicBP: z.number().int().min(0).max(200).optional(),
+  oxygenSaturation: z.number().min(0).max(100).optional(),
+  // Whether the patient was on supplemental oxygen when SpO2 was taken
+  onOxygen: z.boolean().optional(),
+  respiratoryRate: z.number().int().min(0).max(100).optional(),
+  temperatureC: z.number().min(25).max(45).optional(),
+  gcs: z.number().int().min(3).max(15).optional(),
+  painScore: z.number().int().min(0).max(10).optional(),
+}).strict().refine(
+  vitals => Object.entries(vitals).some(([field, value]) => field !== "onOxygen" && value !== undefined),
+  { message: "At least one vital sign is required" },
+);
+
+// Identity details that replace the placeholders on a provisional emergency patient
+export const identityMergeSchema = personalInfoSchema.extend({
+  sex: z.enum(sexValues).optional(),
+});
+
+export type PersonalInfo = z.infer<typeof personalInfoSchema>;
+export type InsuranceInfo = z.infer<typeof insuranceInfoSchema>;
+export type MedicalCode = z.infer<typeof medicalCodeSchema>;
+export type Allergy = z.infer<typeof allergySchema>;
+export type Medication = z.infer<typeof medicationSchema>;
+export type Condition = z.infer<typeof conditionSchema>;
+export type MedicalHistory = z.infer<typeof medicalHistorySchema>;
+export type MedicalInfo = z.infer<typeof medicalInfoSchema>;
+export type PatientInput = z.infer<typeof patientSchema>;
+export type PatientUpdate = z.infer<typeof patientUpdateSchema>;
+export type IdentityMerge = z.infer<typeof identityMergeSchema>;
+export type VitalSigns = z.infer<typeof vitalSignsSchema>;
@@ -0,0 +1,52 @@
+import { z } from "zod";
+
+/*
+ * Hospital wayfinding data, shared by the server that computes routes and the
+ * pages that show them. Places are the stops on the floor plan; passages join
+ * two places and carry what it takes to get between them.
+ */
+
+export const placeKindValues = ["department", "point_of_interest", "entrance", "junction", "elevator"] as const;
+export type PlaceKind = typeof placeKindValues[number];
+
+export const passageKindValues = ["hallway", "elevator", "stairs"] as const;
+export type PassageKind = typeof passageKindValues[number];
+
+export const placeSchema = z.object({
+  // Stable identifier used in URLs and by /api/navigation
+  key: z.string().trim().regex(/^[a-z0-9_]+$/, "Use lowercase letters, digits and underscores"),
+  name: z.string().trim().min(1, "Name is required"),
+  kind: z.enum(placeKindValues),
+  // 0 is the ground floor, negative levels are basements
+  floor: z.number().int().min(-5).max(50),
+  wing: z.string().trim().min(1, "Wing is required"),
+  icon: z.string().trim().optional(),
+  // Admission unit whose beds are here, so a patient can be guided to their bed
+  unitId: z.string().optional(),
+  description: z.string().trim().optional(),
+}).strict();
+
+export const passageSchema = z.object({
+  fromId: z.string().min(1, "Start place is required"),
+  toId: z.string().min(1, "End place is required"),
+  kind: z.enum(passageKindValues),
+  // Walking distance; elevators ignore it and are timed by floors travelled
+  distanceMeters: z.number().min(0).max(2000).default(0),
+  // Signage to follow from the start place to the end place, shown as the step's text in directions
+  instruction: z.string().trim().optional(),
+}).strict().refine(passage => passage.fromId !== passage.toId, {
+  message: "A passage must join two different places",
+  path: ["toId"],
+});
+
+export type PlaceInput = z.infer<typeof placeSchema>;
+export type PassageInput = z.infer<typeof passageSchema>;
+
+export function floorName(floor: number): string {
+  if (floor === 0) return "Ground Floor";
+  return floor < 0 ? `Basement ${-floor}` : `Floor ${floor}`;
+}
+
+export function formatWalkTime(seconds: number): string {
+  return `${Math.max(1, Math.round(seconds / 60))} min`;
+}